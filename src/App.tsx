@@ -1,21 +1,87 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { useKV } from '@github/spark/hooks';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { BarChart, TrendingUp, Calculator, Upload as UploadIcon, Lightning } from '@phosphor-icons/react';
+import { BarChart, TrendingUp, Calculator, Upload as UploadIcon, Lightning, ShieldCheck, GitDiff, ChartLine, Table, Gauge, Stack, ListChecks, Clock } from '@phosphor-icons/react';
 import { CSVUploader } from '@/components/CSVUploader';
 import { StatisticalSummary } from '@/components/StatisticalSummary';
+import { PivotTable } from '@/components/PivotTable';
+import { MigrationScoring } from '@/components/MigrationScoring';
+import { WavePlanner } from '@/components/WavePlanner';
+import { MigrationIssues } from '@/components/MigrationIssues';
+import { Readiness } from '@/components/Readiness';
+import { DurationEstimator } from '@/components/DurationEstimator';
 import { SizeAnalysis } from '@/components/SizeAnalysis';
 import { Histogram } from '@/components/Histogram';
 import { AgeVsSizeScatter } from '@/components/AgeVsSizeScatter';
 import { CommitVsCollaboratorScatter } from '@/components/CommitVsCollaboratorScatter';
 import { PerformanceIndicator } from '@/components/PerformanceIndicator';
-import { RepositoryData } from '@/types/repository';
+import { DataQualityReport } from '@/components/DataQualityReport';
+import { DatasetStorage } from '@/components/DatasetStorage';
+import { SnapshotLibrary } from '@/components/SnapshotLibrary';
+import { SnapshotDiff } from '@/components/SnapshotDiff';
+import { SnapshotTrends } from '@/components/SnapshotTrends';
+import { FilterBar } from '@/components/FilterBar';
+import { SavedViews } from '@/components/SavedViews';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingState } from '@/components/LoadingComponents';
+import { useDatasetStore, suggestSnapshotName } from '@/hooks/useDatasetStore';
+import { IngestReport } from '@/types/repository';
+import { MergeSettings, MergeSource } from '@/lib/merge';
+import { ChartSettings, SavedView } from '@/types/views';
+import { ScoringModel, WavePlanSettings, IssueRule, LimitRule, EstimatorSettings } from '@/types/migration';
+import { getSourceFiles, getAsOfDate } from '@/lib/analytics';
+import { describeExtraColumns, getNumericColumns } from '@/lib/columnTypes';
+import { DashboardFilters, EMPTY_FILTERS, applyFilters } from '@/lib/filters';
+import { getQueryColumns } from '@/lib/query';
+import { useQueryFilter } from '@/hooks/useQueryFilter';
+import { getDefaultChartSettings, importViews, mergeViews } from '@/lib/views';
+import { DashboardUrlState, encodeUrlState } from '@/lib/urlState';
+import { useUrlState } from '@/hooks/useUrlState';
+import { DEFAULT_SCORING_MODEL, normalizeScoringModel } from '@/lib/migrationScore';
+import { DEFAULT_WAVE_SETTINGS, normalizeWaveSettings } from '@/lib/wavePlanner';
+import { DEFAULT_ISSUE_RULES, normalizeIssueRules } from '@/lib/issueClassifier';
+import { DEFAULT_LIMIT_RULES, normalizeLimitRules } from '@/lib/limitRules';
+import { DEFAULT_ESTIMATOR_SETTINGS, normalizeEstimatorSettings } from '@/lib/durationEstimate';
 
 function App() {
-  const [repositoryData, setRepositoryData] = useKV<RepositoryData[]>('repository-data', []);
+  const {
+    snapshots,
+    activeSnapshot,
+    data: repositoryData,
+    files: storedFiles,
+    reports: ingestReports,
+    isLoading: isLoadingStore,
+    loadProgress,
+    storage,
+    error: storeError,
+    switchSnapshot,
+    createSnapshot,
+    updateSnapshot,
+    removeSnapshot,
+    dropFile
+  } = useDatasetStore();
   const [activeTab, setActiveTab] = useState('summary');
+  const [filters, setFilters] = useState<DashboardFilters>(EMPTY_FILTERS);
+  const [isUploading, setIsUploading] = useState(false);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [snapshotDate, setSnapshotDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [chartSettings, setChartSettings] = useState<ChartSettings | null>(null);
+  const [savedViews, setSavedViews] = useKV<SavedView[]>('saved-views', []);
+  const [linkNotice, setLinkNotice] = useState<string | null>(null);
+  const [storedScoringModel, setScoringModel] = useKV<ScoringModel>('migration-scoring-model', DEFAULT_SCORING_MODEL);
+  const scoringModel = useMemo(() => normalizeScoringModel(storedScoringModel), [storedScoringModel]);
+  const [storedWaveSettings, setWaveSettings] = useKV<WavePlanSettings>('wave-plan-settings', DEFAULT_WAVE_SETTINGS);
+  const waveSettings = useMemo(() => normalizeWaveSettings(storedWaveSettings), [storedWaveSettings]);
+  const [storedIssueRules, setIssueRules] = useKV<IssueRule[]>('migration-issue-rules', DEFAULT_ISSUE_RULES);
+  const issueRules = useMemo(() => normalizeIssueRules(storedIssueRules), [storedIssueRules]);
+  const [storedLimitRules, setLimitRules] = useKV<LimitRule[]>('migration-limit-rules', DEFAULT_LIMIT_RULES);
+  const limitRules = useMemo(() => normalizeLimitRules(storedLimitRules), [storedLimitRules]);
+  const [storedEstimatorSettings, setEstimatorSettings] = useKV<EstimatorSettings>('migration-estimator-settings', DEFAULT_ESTIMATOR_SETTINGS);
+  const estimatorSettings = useMemo(() => normalizeEstimatorSettings(storedEstimatorSettings), [storedEstimatorSettings]);
 
   // Stabilize data to prevent hook order changes during loading
   const stableData = useMemo(() => {
@@ -26,31 +92,172 @@ function App() {
     return repositoryData;
   }, [repositoryData]);
 
-  const handleDataLoaded = (data: RepositoryData[]) => {
-    setRepositoryData(data);
+  const sourceFiles = useMemo(() => getSourceFiles(stableData), [stableData]);
+
+  // Types of non-standard columns come from the whole dataset so they don't change with filters
+  const extraColumns = useMemo(() => describeExtraColumns(stableData), [stableData]);
+  const numericColumns = useMemo(() => getNumericColumns(extraColumns), [extraColumns]);
+
+  // Ages are computed against a fixed date so they are reproducible between sessions
+  const asOfDate = useMemo(() => getAsOfDate(stableData), [stableData]);
+
+  const queryColumns = useMemo(() => getQueryColumns(extraColumns), [extraColumns]);
+
+  // Every analysis tab sees the same filtered subset
+  const facetData = useMemo(() => applyFilters(stableData, filters), [stableData, filters]);
+  const { data: filteredData, isFiltering } = useQueryFilter(facetData, filters.query, queryColumns);
+
+  // Until a chart option is changed the defaults follow the dataset size
+  const defaultChartSettings = useMemo(() => getDefaultChartSettings(stableData.length), [stableData.length]);
+  const charts = chartSettings ?? defaultChartSettings;
+
+  const updateChartSettings = useCallback(<K extends keyof ChartSettings>(section: K, changes: Partial<ChartSettings[K]>) => {
+    setChartSettings(prev => {
+      const base = prev ?? defaultChartSettings;
+      return { ...base, [section]: { ...base[section], ...changes } };
+    });
+  }, [defaultChartSettings]);
+
+  const saveView = (name: string) => {
+    const view: SavedView = {
+      id: crypto.randomUUID(),
+      name,
+      tab: activeTab,
+      filters,
+      charts,
+      updatedAt: new Date().toISOString()
+    };
+    setSavedViews(prev => mergeViews(prev ?? [], [view]));
+  };
+
+  const applyView = (view: SavedView) => {
+    setActiveTab(view.tab);
+    setFilters(view.filters);
+    setChartSettings(view.charts);
+  };
+
+  const importViewFile = (text: string) => {
+    const { views, error } = importViews(text, defaultChartSettings, numericColumns);
+    if (views.length > 0) setSavedViews(prev => mergeViews(prev ?? [], views));
+    return error;
+  };
+
+  const encodedUrlState = useMemo(
+    () => encodeUrlState({ snapshot: activeSnapshot?.name ?? null, tab: activeTab, filters, charts }, defaultChartSettings),
+    [activeSnapshot, activeTab, filters, charts, defaultChartSettings]
+  );
+
+  const restoreFromUrl = (state: DashboardUrlState) => {
+    const snapshot = state.snapshot ? snapshots.find(s => s.name === state.snapshot) : undefined;
+    setLinkNotice(state.snapshot && !snapshot
+      ? `Snapshot "${state.snapshot}" from the link is not stored in this browser; showing the active snapshot instead.`
+      : null);
+    if (snapshot && snapshot.id !== activeSnapshot?.id) switchSnapshot(snapshot.id);
+    setActiveTab(state.tab ?? 'summary');
+    setFilters(state.filters);
+    setChartSettings(state.charts);
+    setIsUploading(false);
+  };
+
+  useUrlState(encodedUrlState, defaultChartSettings, numericColumns, !isLoadingStore, restoreFromUrl);
+
+  const handleDataLoaded = (sources: MergeSource[], reports: IngestReport[], merge: MergeSettings) => {
+    createSnapshot(sources, reports, merge, {
+      name: snapshotName.trim() || suggestSnapshotName(reports),
+      date: snapshotDate || new Date().toISOString().slice(0, 10)
+    });
+    setIsUploading(false);
+    setSnapshotName('');
+    setFilters(EMPTY_FILTERS);
+    setChartSettings(null);
+  };
+
+  const startUpload = () => {
+    setSnapshotDate(new Date().toISOString().slice(0, 10));
+    setIsUploading(true);
   };
 
-  const clearData = () => {
-    setRepositoryData([]);
+  const handleSwitchSnapshot = (snapshotId: string) => {
+    setFilters(EMPTY_FILTERS);
+    setChartSettings(null);
+    setLinkNotice(null);
+    setIsUploading(false);
+    switchSnapshot(snapshotId);
+  };
+
+  const handleDropFile = (fileName: string) => {
+    dropFile(fileName);
+    if (filters.sourceFile === fileName) setFilters({ ...filters, sourceFile: null });
   };
 
   const hasData = stableData.length > 0;
+  const showUploader = isUploading || !hasData;
 
   // Render component based on data state - use conditional rendering without early returns
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
-        {!hasData ? (
+        {isLoadingStore ? (
+          <LoadingState
+            message={loadProgress && loadProgress.totalRows > 0
+              ? `Loading snapshot... ${loadProgress.loadedRows.toLocaleString()} of ${loadProgress.totalRows.toLocaleString()} rows`
+              : 'Loading snapshot...'}
+            progress={loadProgress && loadProgress.totalRows > 0
+              ? (loadProgress.loadedRows / loadProgress.totalRows) * 100
+              : undefined}
+            showProgress={Boolean(loadProgress && loadProgress.totalRows > 0)}
+          />
+        ) : showUploader ? (
           <>
             <div className="text-center space-y-6 mb-12">
               <h1 className="text-4xl font-bold text-foreground">
                 GitHub Repository Analytics
               </h1>
               <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-                Upload your repository CSV files to get comprehensive statistical analysis, 
+                Upload your repository CSV, JSON or NDJSON files to get comprehensive statistical analysis, 
                 visualizations, and insights. Multiple files will be automatically combined.
               </p>
+              {snapshots.length > 0 && (
+                <div className="flex items-center justify-center gap-4">
+                  <SnapshotLibrary
+                    snapshots={snapshots}
+                    activeSnapshotId={activeSnapshot?.id ?? null}
+                    onSwitch={handleSwitchSnapshot}
+                    onUpdate={updateSnapshot}
+                    onDelete={removeSnapshot}
+                    onNewSnapshot={startUpload}
+                  />
+                  {isUploading && hasData && (
+                    <Button variant="ghost" size="sm" onClick={() => setIsUploading(false)}>
+                      Back to dashboard
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
+
+            <Card className="mb-6">
+              <CardContent className="p-6 grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="snapshot-name">Snapshot name</Label>
+                  <Input
+                    id="snapshot-name"
+                    value={snapshotName}
+                    onChange={(e) => setSnapshotName(e.target.value)}
+                    placeholder="e.g. Q3 enterprise inventory (defaults to the file name)"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="snapshot-date">Inventory date</Label>
+                  <Input
+                    id="snapshot-date"
+                    type="date"
+                    value={snapshotDate}
+                    onChange={(e) => setSnapshotDate(e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
             
             <CSVUploader onDataLoaded={handleDataLoaded} />
           </>
@@ -61,10 +268,28 @@ function App() {
                 <h1 className="text-3xl font-bold text-foreground">
                   Repository Analytics Dashboard
                 </h1>
-                <div className="flex items-center gap-4">
+                <div className="flex flex-wrap items-center gap-4">
                   <Badge variant="secondary" className="text-sm">
-                    {stableData.length} repositories loaded
+                    {filteredData.length === stableData.length
+                      ? `${stableData.length} repositories loaded`
+                      : `${filteredData.length} of ${stableData.length} repositories`}
                   </Badge>
+                  <SnapshotLibrary
+                    snapshots={snapshots}
+                    activeSnapshotId={activeSnapshot?.id ?? null}
+                    onSwitch={handleSwitchSnapshot}
+                    onUpdate={updateSnapshot}
+                    onDelete={removeSnapshot}
+                    onNewSnapshot={startUpload}
+                  />
+                  <DatasetStorage files={storedFiles} storage={storage} onDropFile={handleDropFile} />
+                  <SavedViews
+                    views={savedViews ?? []}
+                    onApply={applyView}
+                    onSave={saveView}
+                    onDelete={(viewId) => setSavedViews(prev => (prev ?? []).filter(view => view.id !== viewId))}
+                    onImport={importViewFile}
+                  />
                   {stableData.length > 5000 && (
                     <Badge variant="outline" className="text-accent">
                       <Lightning className="w-3 h-3 mr-1" />
@@ -72,13 +297,26 @@ function App() {
                     </Badge>
                   )}
                   <button 
-                    onClick={clearData}
+                    onClick={startUpload}
                     className="text-sm text-muted-foreground hover:text-foreground underline"
                   >
-                    Upload new files
+                    Upload new snapshot
                   </button>
                 </div>
               </div>
+              {storeError && (
+                <p className="text-sm text-destructive">
+                  Storage error: {storeError.message}. Changes may not persist after reload.
+                </p>
+              )}
+              {loadProgress && loadProgress.totalRows > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Loading snapshot... {loadProgress.loadedRows.toLocaleString()} of {loadProgress.totalRows.toLocaleString()} rows
+                </p>
+              )}
+              {linkNotice && (
+                <p className="text-sm text-muted-foreground">{linkNotice}</p>
+              )}
               {stableData.length > 10000 && (
                 <div className="text-right space-y-1">
                   <p className="text-sm text-muted-foreground">
@@ -91,12 +329,29 @@ function App() {
               )}
             </div>
 
+            <FilterBar
+              data={stableData}
+              sourceFiles={sourceFiles}
+              queryColumns={queryColumns}
+              isFiltering={isFiltering}
+              filters={filters}
+              onChange={setFilters}
+            />
+
             <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-              <TabsList className="grid w-full grid-cols-2 lg:grid-cols-5">
+              <TabsList className="grid w-full grid-cols-2 lg:grid-cols-13">
                 <TabsTrigger value="summary" className="flex items-center gap-2">
                   <Calculator className="w-4 h-4" />
                   Summary
                 </TabsTrigger>
+                <TabsTrigger value="pivot" className="flex items-center gap-2">
+                  <Table className="w-4 h-4" />
+                  Pivot
+                </TabsTrigger>
+                <TabsTrigger value="data-quality" className="flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4" />
+                  Data Quality
+                </TabsTrigger>
                 <TabsTrigger value="size-analysis" className="flex items-center gap-2">
                   <TrendingUp className="w-4 h-4" />
                   Size Analysis
@@ -113,6 +368,30 @@ function App() {
                   <BarChart className="w-4 h-4" />
                   Correlations
                 </TabsTrigger>
+                <TabsTrigger value="migration" className="flex items-center gap-2">
+                  <Gauge className="w-4 h-4" />
+                  Migration
+                </TabsTrigger>
+                <TabsTrigger value="readiness" className="flex items-center gap-2">
+                  <ListChecks className="w-4 h-4" />
+                  Readiness
+                </TabsTrigger>
+                <TabsTrigger value="waves" className="flex items-center gap-2">
+                  <Stack className="w-4 h-4" />
+                  Waves
+                </TabsTrigger>
+                <TabsTrigger value="duration" className="flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Duration
+                </TabsTrigger>
+                <TabsTrigger value="changes" className="flex items-center gap-2">
+                  <GitDiff className="w-4 h-4" />
+                  Changes
+                </TabsTrigger>
+                <TabsTrigger value="trends" className="flex items-center gap-2">
+                  <ChartLine className="w-4 h-4" />
+                  Trends
+                </TabsTrigger>
               </TabsList>
 
               {stableData.length > 1000 && (
@@ -123,23 +402,93 @@ function App() {
               )}
 
               <TabsContent value="summary" className="space-y-6">
-                <StatisticalSummary data={stableData} />
+                <StatisticalSummary data={filteredData} extraColumns={extraColumns} />
+              </TabsContent>
+
+              <TabsContent value="pivot" className="space-y-6">
+                <PivotTable data={filteredData} extraColumns={extraColumns} />
+              </TabsContent>
+
+              <TabsContent value="data-quality" className="space-y-6">
+                <DataQualityReport reports={ingestReports} />
               </TabsContent>
 
               <TabsContent value="size-analysis" className="space-y-6">
-                <SizeAnalysis data={stableData} />
+                <SizeAnalysis data={filteredData} scoringModel={scoringModel} limitRules={limitRules} asOfDate={asOfDate} />
               </TabsContent>
 
               <TabsContent value="distributions" className="space-y-6">
-                <Histogram data={stableData} />
+                <Histogram
+                  data={filteredData}
+                  extraColumns={extraColumns}
+                  settings={charts.histogram}
+                  onSettingsChange={(changes) => updateChartSettings('histogram', changes)}
+                />
               </TabsContent>
 
               <TabsContent value="age-size" className="space-y-6">
-                <AgeVsSizeScatter data={stableData} />
+                <AgeVsSizeScatter
+                  data={filteredData}
+                  asOfDate={asOfDate}
+                  settings={charts.ageSize}
+                  onSettingsChange={(changes) => updateChartSettings('ageSize', changes)}
+                />
               </TabsContent>
 
               <TabsContent value="correlations" className="space-y-6">
-                <CommitVsCollaboratorScatter data={stableData} />
+                <CommitVsCollaboratorScatter
+                  data={filteredData}
+                  settings={charts.commitCollaborator}
+                  onSettingsChange={(changes) => updateChartSettings('commitCollaborator', changes)}
+                />
+              </TabsContent>
+
+              <TabsContent value="migration" className="space-y-6">
+                <MigrationScoring data={filteredData} model={scoringModel} onModelChange={setScoringModel} />
+                <MigrationIssues
+                  data={filteredData}
+                  rules={issueRules}
+                  scoringModel={scoringModel}
+                  onRulesChange={setIssueRules}
+                />
+              </TabsContent>
+
+              <TabsContent value="readiness" className="space-y-6">
+                <Readiness
+                  data={filteredData}
+                  rules={limitRules}
+                  asOfDate={asOfDate}
+                  scoringModel={scoringModel}
+                  extraColumns={extraColumns}
+                  onRulesChange={setLimitRules}
+                />
+              </TabsContent>
+
+              <TabsContent value="waves" className="space-y-6">
+                <WavePlanner
+                  data={filteredData}
+                  settings={waveSettings}
+                  scoringModel={scoringModel}
+                  onSettingsChange={setWaveSettings}
+                />
+              </TabsContent>
+
+              <TabsContent value="duration" className="space-y-6">
+                <DurationEstimator
+                  data={filteredData}
+                  settings={estimatorSettings}
+                  waveSettings={waveSettings}
+                  scoringModel={scoringModel}
+                  onSettingsChange={setEstimatorSettings}
+                />
+              </TabsContent>
+
+              <TabsContent value="changes" className="space-y-6">
+                <SnapshotDiff snapshots={snapshots} activeSnapshot={activeSnapshot} data={stableData} scoringModel={scoringModel} />
+              </TabsContent>
+
+              <TabsContent value="trends" className="space-y-6">
+                <SnapshotTrends snapshots={snapshots} />
               </TabsContent>
             </Tabs>
           </>
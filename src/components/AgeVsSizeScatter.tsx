@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { useCallback, useMemo, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
@@ -15,6 +15,7 @@ import { Scatter } from 'react-chartjs-2';
 import { Lightning, Eye, Gauge } from '@phosphor-icons/react';
 import { calculateAge, getColorForValue } from '@/lib/analytics';
 import { RepositoryData } from '@/types/repository';
+import { AgeSizeSettings } from '@/types/views';
 import { useAsyncDataProcessing, useProgressiveRendering } from '@/hooks/useDataProcessing';
 import { useWebWorker } from '@/hooks/useWebWorker';
 import { LoadingState, DataSizeWarning } from '@/components/LoadingComponents';
@@ -25,13 +26,17 @@ ChartJS.register(LinearScale, PointElement, Tooltip, Legend, ScatterController);
 
 interface AgeVsSizeScatterProps {
   data: RepositoryData[];
+  asOfDate: string;
+  settings: AgeSizeSettings;
+  onSettingsChange: (changes: Partial<AgeSizeSettings>) => void;
 }
 
-export function AgeVsSizeScatter({ data }: AgeVsSizeScatterProps) {
-  // ALL STATE HOOKS FIRST - called unconditionally
-  const [optimizeData, setOptimizeData] = useState(data.length > 1000);
-  const [progressiveMode, setProgressiveMode] = useState(data.length > 5000);
-  const [enableWebWorker, setEnableWebWorker] = useState(data.length > 10000);
+export function AgeVsSizeScatter({ data, asOfDate, settings, onSettingsChange }: AgeVsSizeScatterProps) {
+  // Performance toggles are owned by App so saved views can restore them
+  const { optimize: optimizeData, progressive: progressiveMode, webWorker: enableWebWorker } = settings;
+  const setOptimizeData = (optimize: boolean) => onSettingsChange({ optimize });
+  const setProgressiveMode = (progressive: boolean) => onSettingsChange({ progressive });
+  const setEnableWebWorker = (webWorker: boolean) => onSettingsChange({ webWorker });
 
   // ALL REF HOOKS - called unconditionally
   const renderStartTime = useRef<number>(Date.now());
@@ -56,7 +61,7 @@ export function AgeVsSizeScatter({ data }: AgeVsSizeScatterProps) {
       return data
         .filter(repo => repo.Created && repo.Repo_Size_mb >= 0)
         .map(repo => {
-          const age = calculateAge(repo.Created);
+          const age = calculateAge(repo.Created, asOfDate);
           return {
             x: age, // Chart.js expects x/y format
             y: repo.Repo_Size_mb,
@@ -76,7 +81,8 @@ export function AgeVsSizeScatter({ data }: AgeVsSizeScatterProps) {
         const processedData = await workerProcess('PROCESS_SCATTER_DATA', data, {
           optimizeData,
           maxPoints: optimizeData ? 2000 : data.length,
-          deduplicationTolerance: 2
+          deduplicationTolerance: 2,
+          asOf: asOfDate
         });
         
         if (processedData && Array.isArray(processedData)) {
@@ -117,13 +123,14 @@ export function AgeVsSizeScatter({ data }: AgeVsSizeScatterProps) {
     }
 
     return processedData;
-  }, [data, optimizeData, colorRange, enableWebWorker, workerProcess]);
+  }, [data, optimizeData, colorRange, enableWebWorker, workerProcess, asOfDate]);
 
   // Stable processing dependencies to prevent hooks order changes
   const processingDependencies = useMemo(() => [
     optimizeData, 
-    enableWebWorker
-  ], [optimizeData, enableWebWorker]);
+    enableWebWorker,
+    asOfDate
+  ], [optimizeData, enableWebWorker, asOfDate]);
 
   const { processedData: rawScatterData, isLoading, error } = useAsyncDataProcessing(
     data,
@@ -213,7 +220,7 @@ export function AgeVsSizeScatter({ data }: AgeVsSizeScatterProps) {
         position: 'bottom' as const,
         title: {
           display: true,
-          text: 'Age (days)'
+          text: `Age (days as of ${asOfDate.slice(0, 10)})`
         },
         ticks: {
           callback: function(value: any) {
@@ -238,7 +245,7 @@ export function AgeVsSizeScatter({ data }: AgeVsSizeScatterProps) {
       intersect: false,
       mode: 'nearest' as const
     }
-  }), []);
+  }), [asOfDate]);
 
   // Performance optimization indicators
   const getPerformanceLevel = () => {
@@ -350,7 +357,7 @@ export function AgeVsSizeScatter({ data }: AgeVsSizeScatterProps) {
         </CardTitle>
         <div className="flex items-center justify-between">
           <p className="text-sm text-muted-foreground">
-            Color intensity represents record count (red = higher activity)
+            Color intensity represents record count (red = higher activity). Ages are measured as of {asOfDate.slice(0, 10)}
             {progressiveMode && !isComplete && (
               <span className="ml-2 text-accent">
                 • Loading {Math.round(progress)}%
@@ -1,21 +1,35 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { useKV } from '@github/spark/hooks';
 import { Upload, FileText, AlertCircle, X } from '@phosphor-icons/react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { parseCSV } from '@/lib/analytics';
-import { RepositoryData } from '@/types/repository';
+import { Progress } from '@/components/ui/progress';
+import { useStreamingFileParser } from '@/hooks/useWebWorker';
+import { CANCELLED_MESSAGE, StreamProgress, readInputHeaders } from '@/lib/ingestStream';
+import { SUPPORTED_EXTENSIONS } from '@/lib/jsonLoader';
+import { expandUploads } from '@/lib/archive';
+import { formatBytes } from '@/lib/format';
+import { hasCanonicalHeaders } from '@/lib/columnMapping';
+import { mergeSources, MergeKeyStrategy, MergePolicy, MergeSettings, MergeSource } from '@/lib/merge';
+import { ColumnMappingDialog } from '@/components/ColumnMappingDialog';
+import { MergeConflictSummary } from '@/components/MergeConflictSummary';
+import { RepositoryData, IngestReport } from '@/types/repository';
+import { ColumnMapping, MappingProfile } from '@/types/columnMapping';
 
 interface CSVUploaderProps {
-  onDataLoaded: (data: RepositoryData[]) => void;
+  // Files are handed over unmerged, with the settings used to merge them
+  onDataLoaded: (sources: MergeSource[], reports: IngestReport[], merge: MergeSettings) => void;
 }
 
 interface FileProgress {
   name: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'mapping' | 'processing' | 'completed' | 'error' | 'cancelled';
   error?: string;
   recordCount?: number;
+  report?: IngestReport;
+  progress?: StreamProgress;
 }
 
 export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
@@ -24,53 +38,149 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
   const [error, setError] = useState<string | null>(null);
   const [fileProgress, setFileProgress] = useState<FileProgress[]>([]);
   const [combinedData, setCombinedData] = useState<RepositoryData[]>([]);
+  const [stagedUpload, setStagedUpload] = useState<{ sources: MergeSource[]; reports: IngestReport[] } | null>(null);
+  const [mergePolicy, setMergePolicy] = useState<MergePolicy>('latest');
+  const [mergeKeyStrategy, setMergeKeyStrategy] = useState<MergeKeyStrategy>('name');
+  const cancelledRef = useRef(false);
+  const { parseFile, cancelAll } = useStreamingFileParser();
+  const [mappingProfiles, setMappingProfiles] = useKV<MappingProfile[]>('column-mapping-profiles', []);
+  const [pendingMapping, setPendingMapping] = useState<{ fileName: string; headers: string[] } | null>(null);
+  const mappingResolverRef = useRef<((mapping: ColumnMapping | null) => void) | null>(null);
 
-  const handleFiles = useCallback(async (files: FileList) => {
-    const csvFiles = Array.from(files).filter(file => file.name.endsWith('.csv'));
-    
-    if (csvFiles.length === 0) {
-      setError('Please upload at least one CSV file');
-      return;
-    }
+  // Ask the user to map columns; resolves with null when the file is skipped
+  const requestMapping = useCallback((fileName: string, headers: string[]) => {
+    return new Promise<ColumnMapping | null>(resolve => {
+      mappingResolverRef.current = resolve;
+      setPendingMapping({ fileName, headers });
+    });
+  }, []);
+
+  const resolveMapping = useCallback((mapping: ColumnMapping | null) => {
+    mappingResolverRef.current?.(mapping);
+    mappingResolverRef.current = null;
+    setPendingMapping(null);
+  }, []);
+
+  const saveMappingProfile = useCallback((name: string, mapping: ColumnMapping) => {
+    setMappingProfiles(prev => {
+      const profiles = prev ?? [];
+      const existing = profiles.find(profile => profile.name === name);
+      const profile: MappingProfile = {
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        mapping,
+        updatedAt: new Date().toISOString()
+      };
+      return existing
+        ? profiles.map(p => p.id === existing.id ? profile : p)
+        : [...profiles, profile];
+    });
+  }, [setMappingProfiles]);
 
+  const handleFiles = useCallback(async (files: FileList) => {
     setIsLoading(true);
     setError(null);
+    cancelledRef.current = false;
+
+    // Zip archives expand into one input per data file they contain
+    const { inputs: inputFiles, rejected } = await expandUploads(Array.from(files));
+
+    if (inputFiles.length === 0 && rejected.length === 0) {
+      setError('Please upload at least one CSV, JSON or NDJSON file, optionally as .gz or .zip');
+      setIsLoading(false);
+      return;
+    }
     
     // Initialize progress tracking
-    const initialProgress: FileProgress[] = csvFiles.map(file => ({
-      name: file.name,
-      status: 'pending'
-    }));
+    const initialProgress: FileProgress[] = [
+      ...inputFiles.map((file): FileProgress => ({
+        name: file.name,
+        status: 'pending'
+      })),
+      ...rejected.map((upload): FileProgress => ({
+        name: upload.name,
+        status: 'error',
+        error: upload.error
+      }))
+    ];
     setFileProgress(initialProgress);
 
-    const allData: RepositoryData[] = [];
-    let hasErrors = false;
+    const sources: MergeSource[] = [];
+    const reports: IngestReport[] = [];
+    const uploadedAt = new Date().toISOString();
+    const referenceDate = uploadedAt;
+    // Files with identical headers in one upload share a single mapping
+    const batchMappings = new Map<string, ColumnMapping>();
+    let hasErrors = rejected.length > 0;
 
     try {
-      for (let i = 0; i < csvFiles.length; i++) {
-        const file = csvFiles[i];
-        
-        // Update status to processing
-        setFileProgress(prev => prev.map((item, index) => 
-          index === i ? { ...item, status: 'processing' } : item
-        ));
+      for (let i = 0; i < inputFiles.length; i++) {
+        const file = inputFiles[i];
 
+        if (cancelledRef.current) {
+          setFileProgress(prev => prev.map((item, index) =>
+            index === i ? { ...item, status: 'cancelled' } : item
+          ));
+          continue;
+        }
+        
         try {
-          const text = await file.text();
-          const data = parseCSV(text);
-          allData.push(...data);
+          const headers = await readInputHeaders(file.blob, file.format, file.compression);
+          let mapping: ColumnMapping | undefined;
+
+          if (!hasCanonicalHeaders(headers)) {
+            const signature = headers.join('\u0000');
+            mapping = batchMappings.get(signature);
+
+            if (!mapping) {
+              setFileProgress(prev => prev.map((item, index) =>
+                index === i ? { ...item, status: 'mapping' } : item
+              ));
+              const chosen = await requestMapping(file.name, headers);
+              if (!chosen) {
+                setFileProgress(prev => prev.map((item, index) =>
+                  index === i ? { ...item, status: 'cancelled', error: 'Skipped during column mapping' } : item
+                ));
+                continue;
+              }
+              mapping = chosen;
+              batchMappings.set(signature, mapping);
+            }
+          }
+
+          // Update status to processing
+          setFileProgress(prev => prev.map((item, index) => 
+            index === i ? { ...item, status: 'processing' } : item
+          ));
+
+          const { data, report } = await parseFile(file, (progress) => {
+            setFileProgress(prev => prev.map((item, index) =>
+              index === i ? { ...item, progress } : item
+            ));
+          }, { uploadedAt, mapping, referenceDate });
+          sources.push({ fileName: file.name, data });
+          reports.push(report);
           
           // Update status to completed
           setFileProgress(prev => prev.map((item, index) => 
             index === i ? { 
               ...item, 
               status: 'completed', 
-              recordCount: data.length 
+              recordCount: data.length,
+              report
             } : item
           ));
         } catch (err) {
-          hasErrors = true;
           const errorMessage = err instanceof Error ? err.message : 'Failed to parse file';
+
+          if (errorMessage === CANCELLED_MESSAGE) {
+            setFileProgress(prev => prev.map((item, index) =>
+              index === i ? { ...item, status: 'cancelled' } : item
+            ));
+            continue;
+          }
+
+          hasErrors = true;
           
           // Update status to error
           setFileProgress(prev => prev.map((item, index) => 
@@ -83,9 +193,19 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
         }
       }
 
-      if (allData.length > 0) {
-        setCombinedData(allData);
-        onDataLoaded(allData);
+      const hasRows = sources.some(source => source.data.length > 0);
+
+      if (cancelledRef.current) {
+        setError('Upload cancelled. No data was loaded.');
+      } else if (hasRows) {
+        const merged = mergeSources(sources, mergePolicy, mergeKeyStrategy);
+        if (merged.conflicts.length > 0) {
+          // Let the user review duplicates before anything is committed
+          setStagedUpload({ sources, reports });
+        } else {
+          setCombinedData(merged.data);
+          onDataLoaded(sources, reports, { policy: mergePolicy, strategy: mergeKeyStrategy });
+        }
       } else if (hasErrors) {
         setError('No valid data could be loaded from the uploaded files');
       }
@@ -94,7 +214,21 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [onDataLoaded]);
+  }, [onDataLoaded, parseFile, requestMapping, mergePolicy, mergeKeyStrategy]);
+
+  const commitStagedUpload = useCallback(() => {
+    if (!stagedUpload) return;
+    const merged = mergeSources(stagedUpload.sources, mergePolicy, mergeKeyStrategy);
+    setStagedUpload(null);
+    setCombinedData(merged.data);
+    onDataLoaded(stagedUpload.sources, stagedUpload.reports, { policy: mergePolicy, strategy: mergeKeyStrategy });
+  }, [stagedUpload, mergePolicy, mergeKeyStrategy, onDataLoaded]);
+
+  const cancelProcessing = useCallback(() => {
+    cancelledRef.current = true;
+    cancelAll();
+    resolveMapping(null);
+  }, [cancelAll, resolveMapping]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -120,6 +254,7 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
   const clearAll = useCallback(() => {
     setFileProgress([]);
     setCombinedData([]);
+    setStagedUpload(null);
     setError(null);
   }, []);
 
@@ -144,7 +279,7 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
           <div className="space-y-2">
             <h3 className="text-lg font-semibold">Upload Repository Data</h3>
             <p className="text-sm text-muted-foreground">
-              Drag and drop your CSV files here, or click to browse. Multiple files will be combined automatically.
+              Drag and drop your CSV, JSON or NDJSON files here (plain, .gz or inside a .zip), or click to browse. Multiple files will be combined automatically.
             </p>
           </div>
 
@@ -162,7 +297,7 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
               ) : (
                 <>
                   <FileText className="w-4 h-4 mr-2" />
-                  Select CSV Files
+                  Select Files
                 </>
               )}
             </Button>
@@ -170,7 +305,7 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
             <input
               id="csv-file-input"
               type="file"
-              accept=".csv"
+              accept={[...SUPPORTED_EXTENSIONS, '.gz', '.zip'].join(',')}
               multiple
               onChange={handleFileInput}
               className="hidden"
@@ -178,7 +313,8 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
           </div>
 
           <div className="text-xs text-muted-foreground">
-            Required columns: Org_Name, Repo_Name, Repo_Size_mb, Record_Count, and more
+            Required columns: Org_Name, Repo_Name, Repo_Size_mb, Record_Count, and more.
+            Files from other tools can be mapped onto these columns during upload.
           </div>
         </CardContent>
       </Card>
@@ -189,7 +325,16 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-4">
               <h4 className="text-sm font-medium">File Processing Status</h4>
-              {!isLoading && (
+              {isLoading ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={cancelProcessing}
+                  className="text-xs"
+                >
+                  Cancel
+                </Button>
+              ) : (
                 <Button
                   variant="outline"
                   size="sm"
@@ -209,7 +354,7 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
                       {file.status === 'pending' && (
                         <div className="w-2 h-2 bg-muted-foreground rounded-full" />
                       )}
-                      {file.status === 'processing' && (
+                      {(file.status === 'processing' || file.status === 'mapping') && (
                         <div className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full animate-spin" />
                       )}
                       {file.status === 'completed' && (
@@ -222,14 +367,43 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
                     
                     <div className="flex-1 min-w-0">
                       <div className="font-medium text-sm truncate">{file.name}</div>
+                      {file.status === 'processing' && file.progress && (
+                        <div className="space-y-1 mt-1">
+                          <Progress
+                            value={file.progress.totalBytes > 0 ? (file.progress.bytesRead / file.progress.totalBytes) * 100 : 0}
+                            className="h-1.5"
+                          />
+                          <div className="text-xs text-muted-foreground">
+                            {formatBytes(file.progress.bytesRead)} of {formatBytes(file.progress.totalBytes)}
+                            {' • '}{file.progress.rowsParsed.toLocaleString()} rows parsed
+                            {file.progress.rowsRejected > 0 && ` • ${file.progress.rowsRejected.toLocaleString()} rejected`}
+                          </div>
+                        </div>
+                      )}
                       {file.status === 'completed' && file.recordCount && (
                         <div className="text-xs text-muted-foreground">
                           {file.recordCount} records loaded
                         </div>
                       )}
+                      {file.report && file.report.counts.skippedRows > 0 && (
+                        <div className="text-xs text-yellow-700 space-y-0.5 mt-1">
+                          <div>{file.report.counts.skippedRows} rows skipped</div>
+                          {file.report.skippedRows.slice(0, 3).map(row => (
+                            <div key={row.line} className="truncate">
+                              Line {row.line}: {row.reason}
+                            </div>
+                          ))}
+                          {file.report.counts.skippedRows > 3 && (
+                            <div>…and {file.report.counts.skippedRows - 3} more</div>
+                          )}
+                        </div>
+                      )}
                       {file.status === 'error' && file.error && (
                         <div className="text-xs text-destructive">{file.error}</div>
                       )}
+                      {file.status === 'cancelled' && file.error && (
+                        <div className="text-xs text-muted-foreground">{file.error}</div>
+                      )}
                     </div>
                   </div>
                   
@@ -271,6 +445,28 @@ export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
         </Card>
       )}
 
+      {stagedUpload && (
+        <MergeConflictSummary
+          sources={stagedUpload.sources}
+          policy={mergePolicy}
+          keyStrategy={mergeKeyStrategy}
+          onPolicyChange={setMergePolicy}
+          onKeyStrategyChange={setMergeKeyStrategy}
+          onConfirm={commitStagedUpload}
+          onCancel={clearAll}
+        />
+      )}
+
+      <ColumnMappingDialog
+        open={pendingMapping !== null}
+        fileName={pendingMapping?.fileName ?? ''}
+        headers={pendingMapping?.headers ?? []}
+        profiles={mappingProfiles ?? []}
+        onSaveProfile={saveMappingProfile}
+        onConfirm={resolveMapping}
+        onCancel={() => resolveMapping(null)}
+      />
+
       {error && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
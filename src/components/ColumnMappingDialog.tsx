@@ -0,0 +1,203 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { FloppyDisk } from '@phosphor-icons/react';
+import { REQUIRED_COLUMNS } from '@/types/repository';
+import { ColumnMapping, ColumnTransform, MappingProfile, COLUMN_TRANSFORMS } from '@/types/columnMapping';
+import { suggestColumnMapping, profileMatchesHeaders } from '@/lib/columnMapping';
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  fileName: string;
+  headers: string[];
+  profiles: MappingProfile[];
+  onSaveProfile: (name: string, mapping: ColumnMapping) => void;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+// Radix Select does not allow empty values, so unmapped columns use a sentinel
+const UNMAPPED = '__unmapped__';
+
+export function ColumnMappingDialog({
+  open,
+  fileName,
+  headers,
+  profiles,
+  onSaveProfile,
+  onConfirm,
+  onCancel
+}: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
+  const [profileName, setProfileName] = useState('');
+
+  const matchingProfiles = useMemo(
+    () => profiles.filter(profile => profileMatchesHeaders(profile, headers)),
+    [profiles, headers]
+  );
+
+  // Start from a saved profile that fits these headers, otherwise from auto-suggestions
+  useEffect(() => {
+    if (!open) return;
+    const profile = matchingProfiles[0];
+    if (profile) {
+      setMapping({ ...suggestColumnMapping(headers), ...profile.mapping });
+      setSelectedProfileId(profile.id);
+      setProfileName(profile.name);
+    } else {
+      setMapping(suggestColumnMapping(headers));
+      setSelectedProfileId('');
+      setProfileName('');
+    }
+  }, [open, headers, matchingProfiles]);
+
+  const loadProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    setSelectedProfileId(profile.id);
+    setProfileName(profile.name);
+    setMapping({ ...suggestColumnMapping(headers), ...profile.mapping });
+  };
+
+  const updateEntry = (target: string, source: string | null, transform?: ColumnTransform) => {
+    setMapping(prev => ({
+      ...prev,
+      [target]: {
+        source,
+        transform: transform ?? (source === null ? 'none' : prev[target]?.transform ?? 'none')
+      }
+    }));
+  };
+
+  const mappedCount = REQUIRED_COLUMNS.filter(col => mapping[col]?.source).length;
+  const usedSources = new Set(Object.values(mapping).map(entry => entry.source));
+  const extraColumns = headers.filter(h => !usedSources.has(h));
+  const canConfirm = Boolean(mapping.Repo_Name?.source);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Map Columns</DialogTitle>
+          <DialogDescription>
+            <span className="font-medium">{fileName}</span> does not use the standard column names.
+            Choose which column provides each field. Unmapped fields default to 0, false or empty.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={selectedProfileId} onValueChange={loadProfile} disabled={profiles.length === 0}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder={profiles.length === 0 ? 'No saved profiles' : 'Load profile'} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                  {matchingProfiles.includes(profile) ? ' (matches)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name"
+            className="w-48"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={profileName.trim() === ''}
+            onClick={() => onSaveProfile(profileName.trim(), mapping)}
+          >
+            <FloppyDisk className="w-4 h-4 mr-2" />
+            Save Profile
+          </Button>
+          <Badge variant="secondary" className="ml-auto">
+            {mappedCount} of {REQUIRED_COLUMNS.length} mapped
+          </Badge>
+        </div>
+
+        <div className="overflow-y-auto flex-1 min-h-0 border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Source Column</TableHead>
+                <TableHead>Conversion</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {REQUIRED_COLUMNS.map(target => {
+                const entry = mapping[target] ?? { source: null, transform: 'none' };
+                return (
+                  <TableRow key={target}>
+                    <TableCell className="font-mono text-sm">
+                      {target}
+                      {target === 'Repo_Name' && <span className="text-destructive ml-1">*</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={entry.source ?? UNMAPPED}
+                        onValueChange={(value) => updateEntry(target, value === UNMAPPED ? null : value)}
+                      >
+                        <SelectTrigger className="w-52 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                          {headers.map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={entry.transform}
+                        disabled={entry.source === null}
+                        onValueChange={(value: ColumnTransform) => updateEntry(target, entry.source, value)}
+                      >
+                        <SelectTrigger className="w-44 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COLUMN_TRANSFORMS.map(transform => (
+                            <SelectItem key={transform.value} value={transform.value}>
+                              {transform.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {extraColumns.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Kept as additional columns: {extraColumns.join(', ')}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Skip File
+          </Button>
+          <Button onClick={() => onConfirm(mapping)} disabled={!canConfirm}>
+            Apply Mapping
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
@@ -6,16 +6,21 @@ import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Responsive
 import { Lightning } from '@phosphor-icons/react';
 import { calculateStatistics } from '@/lib/analytics';
 import { RepositoryData } from '@/types/repository';
+import { CommitCollaboratorSettings } from '@/types/views';
 import { useAsyncDataProcessing } from '@/hooks/useDataProcessing';
 import { LoadingState, DataSizeWarning } from '@/components/LoadingComponents';
 import { sampleData, deduplicatePoints } from '@/lib/dataOptimization';
 
 interface CommitVsCollaboratorScatterProps {
   data: RepositoryData[];
+  settings: CommitCollaboratorSettings;
+  onSettingsChange: (changes: Partial<CommitCollaboratorSettings>) => void;
 }
 
-export function CommitVsCollaboratorScatter({ data }: CommitVsCollaboratorScatterProps) {
-  const [optimizeData, setOptimizeData] = useState(data.length > 2000);
+export function CommitVsCollaboratorScatter({ data, settings, onSettingsChange }: CommitVsCollaboratorScatterProps) {
+  // Owned by App so saved views can restore it
+  const optimizeData = settings.optimize;
+  const setOptimizeData = (optimize: boolean) => onSettingsChange({ optimize });
 
   const processScatterData = useCallback(async () => {
     const commitStats = calculateStatistics(data, 'Commit_Comment_Count');
@@ -72,7 +77,7 @@ export function CommitVsCollaboratorScatter({ data }: CommitVsCollaboratorScatte
         <CardContent className="flex flex-col items-center justify-center py-12">
           <p className="text-destructive">Error processing data: {error.message}</p>
           <button 
-            onClick={() => setOptimizeData(prev => !prev)}
+            onClick={() => setOptimizeData(!optimizeData)}
             className="mt-4 text-sm bg-secondary text-secondary-foreground px-3 py-1 rounded hover:bg-secondary/90 transition-colors"
           >
             Retry
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DownloadSimple, CheckCircle, Warning } from '@phosphor-icons/react';
+import { IngestReport } from '@/types/repository';
+import { countReportIssues, ingestReportsToCSV } from '@/lib/ingestReport';
+import { downloadFile } from '@/lib/export';
+
+interface DataQualityReportProps {
+  reports: IngestReport[];
+}
+
+// Only the first rows of each issue list are rendered; the CSV download has everything
+const PREVIEW_LIMIT = 100;
+
+export function DataQualityReport({ reports }: DataQualityReportProps) {
+  const [selectedFile, setSelectedFile] = useState('all');
+
+  if (reports.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <p className="text-muted-foreground">No data quality report is available for this dataset</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const visibleReports = selectedFile === 'all'
+    ? reports
+    : reports.filter(report => report.fileName === selectedFile);
+
+  const handleDownload = () => {
+    downloadFile('data-quality-report.csv', ingestReportsToCSV(visibleReports));
+  };
+
+  const renderMoreNote = (shown: number, total: number) => (
+    total > shown && (
+      <p className="text-xs text-muted-foreground mt-2">
+        Showing {shown.toLocaleString()} of {total.toLocaleString()}. Download the report for the full list.
+      </p>
+    )
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Data Quality</span>
+            <div className="flex items-center gap-4">
+              {reports.length > 1 && (
+                <Select value={selectedFile} onValueChange={setSelectedFile}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All files</SelectItem>
+                    {reports.map(report => (
+                      <SelectItem key={report.fileName} value={report.fileName}>
+                        {report.fileName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button variant="outline" size="sm" onClick={handleDownload}>
+                <DownloadSimple className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+      </Card>
+
+      {visibleReports.map(report => {
+        const issueCount = countReportIssues(report);
+
+        return (
+          <Card key={report.fileName}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <span className="truncate">{report.fileName}</span>
+                {issueCount === 0 ? (
+                  <Badge variant="outline" className="text-green-600">
+                    <CheckCircle className="w-3 h-3 mr-1" />
+                    No issues
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="text-yellow-700">
+                    <Warning className="w-3 h-3 mr-1" />
+                    {issueCount.toLocaleString()} issues
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-4">
+                {[
+                  { label: 'Rows read', value: report.totalRows },
+                  { label: 'Rows loaded', value: report.acceptedRows },
+                  { label: 'Rows skipped', value: report.counts.skippedRows },
+                  { label: 'Coerced cells', value: report.counts.coercedCells },
+                  { label: 'Invalid dates', value: report.counts.invalidDates },
+                  { label: 'Ambiguous dates', value: report.counts.ambiguousDates },
+                  { label: 'Duplicate keys', value: report.counts.duplicateKeys }
+                ].map(stat => (
+                  <div key={stat.label} className="p-3 bg-muted/50 rounded-lg">
+                    <div className="text-xs text-muted-foreground">{stat.label}</div>
+                    <div className="text-lg font-semibold font-mono">{stat.value.toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+
+              {issueCount > 0 && (
+                <Accordion type="multiple">
+                  {report.counts.skippedRows > 0 && (
+                    <AccordionItem value="skipped">
+                      <AccordionTrigger>Skipped rows ({report.counts.skippedRows.toLocaleString()})</AccordionTrigger>
+                      <AccordionContent>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-24">Line</TableHead>
+                              <TableHead>Reason</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {report.skippedRows.slice(0, PREVIEW_LIMIT).map(row => (
+                              <TableRow key={row.line}>
+                                <TableCell className="font-mono">{row.line}</TableCell>
+                                <TableCell>{row.reason}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        {renderMoreNote(Math.min(PREVIEW_LIMIT, report.skippedRows.length), report.counts.skippedRows)}
+                      </AccordionContent>
+                    </AccordionItem>
+                  )}
+
+                  {report.counts.coercedCells > 0 && (
+                    <AccordionItem value="coerced">
+                      <AccordionTrigger>Coerced cells ({report.counts.coercedCells.toLocaleString()})</AccordionTrigger>
+                      <AccordionContent>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-24">Line</TableHead>
+                              <TableHead>Column</TableHead>
+                              <TableHead>Original Value</TableHead>
+                              <TableHead>Coerced To</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {report.coercedCells.slice(0, PREVIEW_LIMIT).map(cell => (
+                              <TableRow key={`${cell.line}-${cell.column}`}>
+                                <TableCell className="font-mono">{cell.line}</TableCell>
+                                <TableCell>{cell.column}</TableCell>
+                                <TableCell className="font-mono">{cell.value === '' ? <em className="text-muted-foreground">empty</em> : cell.value}</TableCell>
+                                <TableCell className="font-mono">{String(cell.coercedTo)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        {renderMoreNote(Math.min(PREVIEW_LIMIT, report.coercedCells.length), report.counts.coercedCells)}
+                      </AccordionContent>
+                    </AccordionItem>
+                  )}
+
+                  {report.counts.invalidDates > 0 && (
+                    <AccordionItem value="dates">
+                      <AccordionTrigger>Invalid dates ({report.counts.invalidDates.toLocaleString()})</AccordionTrigger>
+                      <AccordionContent>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-24">Line</TableHead>
+                              <TableHead>Column</TableHead>
+                              <TableHead>Value</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {report.invalidDates.slice(0, PREVIEW_LIMIT).map(date => (
+                              <TableRow key={`${date.line}-${date.column}`}>
+                                <TableCell className="font-mono">{date.line}</TableCell>
+                                <TableCell>{date.column}</TableCell>
+                                <TableCell className="font-mono">{date.value}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        {renderMoreNote(Math.min(PREVIEW_LIMIT, report.invalidDates.length), report.counts.invalidDates)}
+                      </AccordionContent>
+                    </AccordionItem>
+                  )}
+
+                  {report.counts.ambiguousDates > 0 && (
+                    <AccordionItem value="ambiguous-dates">
+                      <AccordionTrigger>Ambiguous dates ({report.counts.ambiguousDates.toLocaleString()})</AccordionTrigger>
+                      <AccordionContent>
+                        <p className="text-xs text-muted-foreground mb-2">
+                          Day and month could be swapped in these values; they were read month-first (US order).
+                        </p>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-24">Line</TableHead>
+                              <TableHead>Column</TableHead>
+                              <TableHead>Value</TableHead>
+                              <TableHead>Read As (UTC)</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {report.ambiguousDates.slice(0, PREVIEW_LIMIT).map(date => (
+                              <TableRow key={`${date.line}-${date.column}`}>
+                                <TableCell className="font-mono">{date.line}</TableCell>
+                                <TableCell>{date.column}</TableCell>
+                                <TableCell className="font-mono">{date.value}</TableCell>
+                                <TableCell className="font-mono">{date.interpretedAs}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        {renderMoreNote(Math.min(PREVIEW_LIMIT, report.ambiguousDates.length), report.counts.ambiguousDates)}
+                      </AccordionContent>
+                    </AccordionItem>
+                  )}
+
+                  {report.counts.duplicateKeys > 0 && (
+                    <AccordionItem value="duplicates">
+                      <AccordionTrigger>Duplicate Org_Name/Repo_Name keys ({report.counts.duplicateKeys.toLocaleString()})</AccordionTrigger>
+                      <AccordionContent>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Key</TableHead>
+                              <TableHead className="text-right">Occurrences</TableHead>
+                              <TableHead>Lines</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {report.duplicateKeys.slice(0, PREVIEW_LIMIT).map(duplicate => (
+                              <TableRow key={duplicate.key}>
+                                <TableCell className="font-medium">{duplicate.key}</TableCell>
+                                <TableCell className="text-right font-mono">{duplicate.lines.length}</TableCell>
+                                <TableCell className="font-mono text-xs">{duplicate.lines.join(', ')}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        {renderMoreNote(Math.min(PREVIEW_LIMIT, report.duplicateKeys.length), report.counts.duplicateKeys)}
+                      </AccordionContent>
+                    </AccordionItem>
+                  )}
+                </Accordion>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Database, Trash } from '@phosphor-icons/react';
+import { StoredFile, StorageEstimate } from '@/lib/datasetStore';
+import { formatBytes } from '@/lib/format';
+
+interface DatasetStorageProps {
+  files: StoredFile[];
+  storage: StorageEstimate | null;
+  onDropFile: (fileName: string) => void;
+}
+
+export function DatasetStorage({ files, storage, onDropFile }: DatasetStorageProps) {
+  const storedBytes = files.reduce((sum, file) => sum + file.approxBytes, 0);
+  const usagePercent = storage && storage.quota > 0 ? (storage.usage / storage.quota) * 100 : 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <Database className="w-4 h-4 mr-2" />
+          {formatBytes(storage?.usage ?? storedBytes)} stored
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-[28rem] space-y-4">
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Browser storage</div>
+          {storage ? (
+            <>
+              <Progress value={usagePercent} className="h-2" />
+              <div className="text-xs text-muted-foreground">
+                {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used ({usagePercent.toFixed(1)}%)
+              </div>
+            </>
+          ) : (
+            <div className="text-xs text-muted-foreground">
+              Usage estimate unavailable; stored rows take about {formatBytes(storedBytes)}
+            </div>
+          )}
+        </div>
+
+        <div className="max-h-64 overflow-y-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {files.map(file => (
+                <TableRow key={file.fileName}>
+                  <TableCell className="max-w-48">
+                    <div className="truncate text-sm" title={file.fileName}>{file.fileName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(file.uploadedAt).toLocaleString()}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">{file.rowCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right font-mono text-sm">{formatBytes(file.approxBytes)}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title={`Remove ${file.fileName} from the dataset`}
+                      onClick={() => onDropFile(file.fileName)}
+                    >
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Removing a file deletes its rows from the stored dataset. Other files stay loaded.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,384 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DownloadSimple, Plus, Trash } from '@phosphor-icons/react';
+import { MigrationScoreBadge } from '@/components/MigrationScoreBadge';
+import { RepositoryData } from '@/types/repository';
+import { DurationEstimate, EstimatorSettings, ScoringModel, ThroughputSample, WavePlanSettings } from '@/types/migration';
+import {
+  CONFIDENCE_LEVELS,
+  summarizeThroughput,
+  estimateDuration,
+  estimateRepo,
+  getWorkload,
+  toCalendarDays,
+  formatDuration
+} from '@/lib/durationEstimate';
+import { planWaves } from '@/lib/wavePlanner';
+import { toCSV, downloadFile } from '@/lib/export';
+import { DISPLAY_LIMIT, formatSize } from '@/lib/format';
+
+interface DurationEstimatorProps {
+  data: RepositoryData[];
+  settings: EstimatorSettings;
+  waveSettings: WavePlanSettings;
+  scoringModel: ScoringModel;
+  onSettingsChange: (settings: EstimatorSettings) => void;
+}
+
+const ORG_LIMIT = 100;
+
+const SAMPLE_FIELDS: { key: 'mbPerMinute' | 'recordsPerMinute' | 'overheadMinutes'; label: string }[] = [
+  { key: 'mbPerMinute', label: 'MB / min' },
+  { key: 'recordsPerMinute', label: 'Records / min' },
+  { key: 'overheadMinutes', label: 'Overhead (min)' }
+];
+
+const formatRange = (estimate: DurationEstimate) => {
+  if (!estimate.reliable) return 'n/a';
+  return estimate.high - estimate.low < 1
+    ? formatDuration(estimate.expected)
+    : `${formatDuration(estimate.low)} – ${formatDuration(estimate.high)}`;
+};
+
+const formatDays = (days: number) => (days < 1 ? `${(days * 24).toFixed(1)} hours` : `${days.toFixed(1)} days`);
+
+export function DurationEstimator({ data, settings, waveSettings, scoringModel, onSettingsChange }: DurationEstimatorProps) {
+  const { confidence, parallelMigrations, hoursPerDay } = settings;
+  const model = useMemo(() => summarizeThroughput(settings.samples), [settings.samples]);
+
+  const total = useMemo(() => estimateDuration(getWorkload(data), model, confidence), [data, model, confidence]);
+
+  const waves = useMemo(
+    () => planWaves(data, waveSettings).map(wave => ({
+      wave,
+      estimate: estimateDuration(wave.totals, model, confidence)
+    })),
+    [data, waveSettings, model, confidence]
+  );
+
+  const orgs = useMemo(() => {
+    const groups = new Map<string, RepositoryData[]>();
+    data.forEach(repo => {
+      const repos = groups.get(repo.Org_Name);
+      if (repos) {
+        repos.push(repo);
+      } else {
+        groups.set(repo.Org_Name, [repo]);
+      }
+    });
+    return Array.from(groups, ([org, repos]) => {
+      const workload = getWorkload(repos);
+      return { org, workload, estimate: estimateDuration(workload, model, confidence) };
+    }).sort((a, b) => b.estimate.expected - a.estimate.expected);
+  }, [data, model, confidence]);
+
+  const repos = useMemo(
+    () => data
+      .map(repo => ({ repo, estimate: estimateRepo(repo, model, confidence) }))
+      .sort((a, b) => b.estimate.expected - a.estimate.expected),
+    [data, model, confidence]
+  );
+
+  const calendar = (minutes: number) => toCalendarDays(minutes, parallelMigrations, hoursPerDay);
+
+  const updateSample = (id: string, changes: Partial<ThroughputSample>) => {
+    onSettingsChange({
+      ...settings,
+      samples: settings.samples.map(sample => (sample.id === id ? { ...sample, ...changes } : sample))
+    });
+  };
+
+  const addSample = () => {
+    const sample: ThroughputSample = {
+      id: crypto.randomUUID(),
+      label: `Run ${settings.samples.length + 1}`,
+      mbPerMinute: 50,
+      recordsPerMinute: 1000,
+      overheadMinutes: 5
+    };
+    onSettingsChange({ ...settings, samples: [...settings.samples, sample] });
+  };
+
+  const setNumber = (key: 'parallelMigrations' | 'hoursPerDay', text: string) => {
+    const value = Math.round(Number(text));
+    onSettingsChange({ ...settings, [key]: Number.isFinite(value) && value > 0 ? value : 1 });
+  };
+
+  const handleExport = () => {
+    const level = CONFIDENCE_LEVELS.find(l => l.value === confidence)?.label ?? '';
+    const rows = [
+      ['Org_Name', 'Repo_Name', 'Repo_Size_mb', 'Record_Count', 'Expected_Minutes', `Low_Minutes_${level}`, `High_Minutes_${level}`],
+      ...repos.map(({ repo, estimate }) => [
+        repo.Org_Name,
+        repo.Repo_Name,
+        repo.Repo_Size_mb,
+        repo.Record_Count,
+        Math.round(estimate.expected * 10) / 10,
+        estimate.reliable ? Math.round(estimate.low * 10) / 10 : '',
+        estimate.reliable ? Math.round(estimate.high * 10) / 10 : ''
+      ])
+    ];
+    downloadFile('migration-duration-estimates.csv', toCSV(rows));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Projected Migration Time</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            For the {data.length.toLocaleString()} filtered repositories, with {parallelMigrations} parallel migration
+            {parallelMigrations === 1 ? '' : 's'} running {hoursPerDay} hours a day.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Calendar time (expected)</div>
+              <div className="text-lg font-semibold font-mono">{formatDays(calendar(total.expected))}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">
+                Calendar time ({CONFIDENCE_LEVELS.find(l => l.value === confidence)?.label} range)
+              </div>
+              <div className="text-lg font-semibold font-mono">
+                {total.reliable
+                  ? `${formatDays(calendar(total.low))} – ${formatDays(calendar(total.high))}`
+                  : 'n/a'}
+              </div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Migration time, one at a time</div>
+              <div className="text-lg font-semibold font-mono">{formatDuration(total.expected)}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Recorded runs used</div>
+              <div className="text-lg font-semibold font-mono">{model.sampleCount}</div>
+            </div>
+          </div>
+          {!total.reliable && (
+            <p className="text-xs text-amber-700 mt-3">
+              Ranges are unreliable with fewer than two recorded runs. Record at least two runs to get a confidence range.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Recorded Throughput</span>
+            <Button variant="outline" size="sm" onClick={addSample}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add run
+            </Button>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Each run is one measured migration. Ranges come from the variation between runs; runs with a zero rate are ignored.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {settings.samples.map(sample => (
+              <div key={sample.id} className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Run</Label>
+                  <Input
+                    value={sample.label}
+                    onChange={(e) => updateSample(sample.id, { label: e.target.value })}
+                    className="h-8 w-44"
+                  />
+                </div>
+                {SAMPLE_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">{field.label}</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={sample[field.key]}
+                      onChange={(e) => updateSample(sample.id, { [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                      className="h-8 w-32"
+                    />
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Delete run"
+                  onClick={() => onSettingsChange({ ...settings, samples: settings.samples.filter(s => s.id !== sample.id) })}
+                >
+                  <Trash className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4 pt-2 border-t">
+            <div className="space-y-1">
+              <Label htmlFor="estimate-confidence">Confidence</Label>
+              <Select
+                value={String(confidence)}
+                onValueChange={(value) => onSettingsChange({ ...settings, confidence: Number(value) })}
+              >
+                <SelectTrigger id="estimate-confidence" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONFIDENCE_LEVELS.map(level => (
+                    <SelectItem key={level.value} value={String(level.value)}>{level.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="estimate-parallel">Parallel migrations</Label>
+              <Input
+                id="estimate-parallel"
+                type="number"
+                min={1}
+                className="w-32"
+                value={parallelMigrations}
+                onChange={(e) => setNumber('parallelMigrations', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="estimate-hours">Hours per day</Label>
+              <Input
+                id="estimate-hours"
+                type="number"
+                min={1}
+                max={24}
+                className="w-32"
+                value={hoursPerDay}
+                onChange={(e) => setNumber('hoursPerDay', e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Wave</CardTitle>
+          <p className="text-sm text-muted-foreground">Waves come from the current wave planner settings.</p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-auto max-h-[28rem] border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Wave</TableHead>
+                  <TableHead className="text-right">Repos</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Range</TableHead>
+                  <TableHead className="text-right">Calendar</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {waves.map(({ wave, estimate }) => (
+                  <TableRow key={wave.number}>
+                    <TableCell className="font-medium">Wave {wave.number}</TableCell>
+                    <TableCell className="text-right font-mono">{wave.totals.repos.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{formatSize(wave.totals.sizeMb)}</TableCell>
+                    <TableCell className="text-right font-mono">{wave.totals.records.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{formatDuration(estimate.expected)}</TableCell>
+                    <TableCell className="text-right font-mono text-muted-foreground">{formatRange(estimate)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatDays(calendar(estimate.expected))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>By Organization</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-auto max-h-[32rem] border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Organization</TableHead>
+                    <TableHead className="text-right">Repos</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Range</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orgs.slice(0, ORG_LIMIT).map(({ org, workload, estimate }) => (
+                    <TableRow key={org}>
+                      <TableCell className="font-medium">{org}</TableCell>
+                      <TableCell className="text-right font-mono">{workload.repos.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{formatDuration(estimate.expected)}</TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">{formatRange(estimate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {orgs.length > ORG_LIMIT && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Showing the {ORG_LIMIT} longest of {orgs.length.toLocaleString()} organizations
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Longest Repositories</span>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={repos.length === 0}>
+                <DownloadSimple className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-auto max-h-[32rem] border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Repository</TableHead>
+                    <TableHead>Complexity</TableHead>
+                    <TableHead className="text-right">Size</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Range</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {repos.slice(0, DISPLAY_LIMIT).map(({ repo, estimate }, index) => (
+                    <TableRow key={`${repo.Org_Name}/${repo.Repo_Name}/${index}`}>
+                      <TableCell className="font-medium">{repo.Org_Name}/{repo.Repo_Name}</TableCell>
+                      <TableCell><MigrationScoreBadge repo={repo} model={scoringModel} /></TableCell>
+                      <TableCell className="text-right font-mono">{formatSize(repo.Repo_Size_mb)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatDuration(estimate.expected)}</TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">{formatRange(estimate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {repos.length > DISPLAY_LIMIT && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Showing {DISPLAY_LIMIT.toLocaleString()} of {repos.length.toLocaleString()}. Download the CSV for the full list.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState, useMemo } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { Funnel, X } from '@phosphor-icons/react';
+import { QueryBar } from '@/components/QueryBar';
+import { RepositoryData, ColumnInfo, NUMERICAL_COLUMNS, BOOLEAN_COLUMNS } from '@/types/repository';
+import {
+  DashboardFilters,
+  BooleanFacet,
+  DateRange,
+  EMPTY_FILTERS,
+  FILTER_DATE_COLUMNS,
+  BOOLEAN_FACET_LABELS,
+  countActiveFilters,
+  getColumnBounds
+} from '@/lib/filters';
+import { formatColumn } from '@/lib/format';
+
+interface FilterBarProps {
+  data: RepositoryData[];
+  sourceFiles: string[];
+  queryColumns: ColumnInfo[];
+  isFiltering?: boolean;
+  filters: DashboardFilters;
+  onChange: (filters: DashboardFilters) => void;
+}
+
+// Organizations shown in the picker at once; the search box narrows the rest
+const ORG_LIST_LIMIT = 200;
+
+export function FilterBar({ data, sourceFiles, queryColumns, isFiltering, filters, onChange }: FilterBarProps) {
+  const [orgSearch, setOrgSearch] = useState('');
+
+  const orgNames = useMemo(() => Array.from(new Set(data.map(repo => repo.Org_Name))).sort(), [data]);
+  const bounds = useMemo(() => getColumnBounds(data), [data]);
+  const activeCount = countActiveFilters(filters);
+
+  const visibleOrgs = useMemo(() => {
+    const query = orgSearch.trim().toLowerCase();
+    return orgNames.filter(name => !query || name.toLowerCase().includes(query));
+  }, [orgNames, orgSearch]);
+
+  const toggleOrg = (org: string, checked: boolean) => {
+    const orgs = checked ? [...filters.orgs, org] : filters.orgs.filter(name => name !== org);
+    onChange({ ...filters, orgs });
+  };
+
+  const setBoolean = (column: string, facet: BooleanFacet) => {
+    onChange({ ...filters, booleans: { ...filters.booleans, [column]: facet } });
+  };
+
+  // A range dragged back to the full extent of the data no longer filters anything
+  const setRange = (column: string, [min, max]: number[]) => {
+    const { [column]: _, ...ranges } = filters.ranges;
+    const columnBounds = bounds[column];
+    if (min > columnBounds.min || max < columnBounds.max) ranges[column] = { min, max };
+    onChange({ ...filters, ranges });
+  };
+
+  const setDate = (column: string, changes: Partial<DateRange>) => {
+    const range: DateRange = { ...(filters.dates[column] ?? { from: '', to: '' }), ...changes };
+    onChange({ ...filters, dates: { ...filters.dates, [column]: range } });
+  };
+
+  const activeDates = Object.values(filters.dates).filter(range => range.from || range.to).length;
+  const activeRanges = Object.keys(filters.ranges).length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 mb-6 border rounded-lg bg-muted/30">
+      <div className="flex items-center gap-2 text-sm font-medium mr-2">
+        <Funnel className="w-4 h-4" />
+        Filters
+        {activeCount > 0 && <Badge variant="default">{activeCount}</Badge>}
+      </div>
+
+      {sourceFiles.length > 1 && (
+        <Select
+          value={filters.sourceFile ?? 'all'}
+          onValueChange={(value) => onChange({ ...filters, sourceFile: value === 'all' ? null : value })}
+        >
+          <SelectTrigger className="w-56 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All source files</SelectItem>
+            {sourceFiles.map(file => (
+              <SelectItem key={file} value={file}>{file}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8">
+            Organizations
+            {filters.orgs.length > 0 && <Badge variant="secondary" className="ml-2">{filters.orgs.length}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 space-y-3">
+          <Input
+            value={orgSearch}
+            onChange={(e) => setOrgSearch(e.target.value)}
+            placeholder="Search organizations"
+            className="h-8"
+          />
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {visibleOrgs.slice(0, ORG_LIST_LIMIT).map(org => (
+              <label key={org} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={filters.orgs.includes(org)}
+                  onCheckedChange={(checked) => toggleOrg(org, checked === true)}
+                />
+                <span className="truncate" title={org}>{org}</span>
+              </label>
+            ))}
+            {visibleOrgs.length > ORG_LIST_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                {visibleOrgs.length - ORG_LIST_LIMIT} more; refine the search to see them
+              </p>
+            )}
+          </div>
+          {filters.orgs.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7" onClick={() => onChange({ ...filters, orgs: [] })}>
+              Clear selection
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {BOOLEAN_COLUMNS.map(column => (
+        <Select
+          key={column}
+          value={filters.booleans[column] ?? 'any'}
+          onValueChange={(value: BooleanFacet) => setBoolean(column, value)}
+        >
+          <SelectTrigger className="w-36 h-8 text-sm">
+            <span className="text-muted-foreground mr-1">{BOOLEAN_FACET_LABELS[column]}:</span>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any</SelectItem>
+            <SelectItem value="yes">Yes</SelectItem>
+            <SelectItem value="no">No</SelectItem>
+          </SelectContent>
+        </Select>
+      ))}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8">
+            Ranges
+            {activeRanges > 0 && <Badge variant="secondary" className="ml-2">{activeRanges}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-96 max-h-[28rem] overflow-y-auto space-y-4">
+          {NUMERICAL_COLUMNS.map(column => {
+            const columnBounds = bounds[column];
+            const range = filters.ranges[column] ?? columnBounds;
+            const step = columnBounds.integer ? 1 : (columnBounds.max - columnBounds.min) / 1000 || 1;
+
+            return (
+              <div key={column} className="space-y-2">
+                <div className="flex justify-between text-xs">
+                  <span className={filters.ranges[column] ? 'font-medium' : 'text-muted-foreground'}>
+                    {formatColumn(column)}
+                  </span>
+                  <span className="font-mono text-muted-foreground">
+                    {range.min.toLocaleString()} – {range.max.toLocaleString()}
+                  </span>
+                </div>
+                <Slider
+                  min={columnBounds.min}
+                  max={columnBounds.max}
+                  step={step}
+                  value={[range.min, range.max]}
+                  disabled={columnBounds.min === columnBounds.max}
+                  onValueChange={(value) => setRange(column, value)}
+                />
+              </div>
+            );
+          })}
+        </PopoverContent>
+      </Popover>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8">
+            Dates
+            {activeDates > 0 && <Badge variant="secondary" className="ml-2">{activeDates}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 space-y-4">
+          {FILTER_DATE_COLUMNS.map(column => (
+            <div key={column} className="space-y-2">
+              <Label>{formatColumn(column)}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  className="h-8"
+                  value={filters.dates[column]?.from ?? ''}
+                  onChange={(e) => setDate(column, { from: e.target.value })}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="date"
+                  className="h-8"
+                  value={filters.dates[column]?.to ?? ''}
+                  onChange={(e) => setDate(column, { to: e.target.value })}
+                />
+              </div>
+            </div>
+          ))}
+        </PopoverContent>
+      </Popover>
+
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" className="h-8" onClick={() => onChange(EMPTY_FILTERS)}>
+          <X className="w-4 h-4 mr-1" />
+          Clear all
+        </Button>
+      )}
+
+      <QueryBar
+        query={filters.query}
+        columns={queryColumns}
+        isFiltering={isFiltering}
+        onChange={(query) => onChange({ ...filters, query })}
+      />
+    </div>
+  );
+}
@@ -8,13 +8,18 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart } from 'recharts';
 import { ChartBar as BarChartIcon, Table as TableIcon, Calculator, Lightning } from '@phosphor-icons/react';
-import { RepositoryData, NUMERICAL_COLUMNS } from '@/types/repository';
+import { RepositoryData, ColumnInfo, NUMERICAL_COLUMNS } from '@/types/repository';
+import { HistogramSettings, ScalingMethod } from '@/types/views';
+import { getNumericColumns } from '@/lib/columnTypes';
 import { useAsyncDataProcessing } from '@/hooks/useDataProcessing';
 import { LoadingState, DataSizeWarning } from '@/components/LoadingComponents';
 import { calculateOptimalBinCount, aggregateDataIntoBins } from '@/lib/dataOptimization';
 
 interface HistogramProps {
   data: RepositoryData[];
+  extraColumns?: ColumnInfo[];
+  settings: HistogramSettings;
+  onSettingsChange: (changes: Partial<HistogramSettings>) => void;
 }
 
 interface HistogramBin {
@@ -29,14 +34,16 @@ interface HistogramBin {
   scaledEnd: number;
 }
 
-type ScalingMethod = 'none' | 'minmax' | 'zscore' | 'robust';
-
-export function Histogram({ data }: HistogramProps) {
-  const [selectedColumn, setSelectedColumn] = useState(NUMERICAL_COLUMNS[0]);
-  const [scalingMethod, setScalingMethod] = useState<ScalingMethod>('none');
+export function Histogram({ data, extraColumns = [], settings, onSettingsChange }: HistogramProps) {
+  const numericColumns = useMemo(() => getNumericColumns(extraColumns), [extraColumns]);
   const [viewMode, setViewMode] = useState<'chart' | 'table'>('chart');
-  const [optimizeData, setOptimizeData] = useState(data.length > 5000);
-  const [useLogScale, setUseLogScale] = useState(false);
+
+  // Chart options are owned by App so saved views can restore them
+  const { column: selectedColumn, scaling: scalingMethod, optimize: optimizeData, logScale: useLogScale } = settings;
+  const setSelectedColumn = (column: string) => onSettingsChange({ column });
+  const setScalingMethod = (scaling: ScalingMethod) => onSettingsChange({ scaling });
+  const setOptimizeData = (optimize: boolean) => onSettingsChange({ optimize });
+  const setUseLogScale = (logScale: boolean) => onSettingsChange({ logScale });
 
   // Memoize stable values to prevent unnecessary re-renders
   const stableSelectedColumn = useMemo(() => selectedColumn, [selectedColumn]);
@@ -405,7 +412,7 @@ export function Histogram({ data }: HistogramProps) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {NUMERICAL_COLUMNS.map(column => (
+                {numericColumns.map(column => (
                   <SelectItem key={column} value={column}>
                     {column.replace(/_/g, ' ').replace(/([A-Z])/g, ' $1').trim()}
                   </SelectItem>
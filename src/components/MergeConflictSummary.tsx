@@ -0,0 +1,128 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { GitMerge } from '@phosphor-icons/react';
+import { MergeKeyStrategy, MergePolicy, MergeSource, MERGE_POLICIES, mergeSources } from '@/lib/merge';
+
+interface MergeConflictSummaryProps {
+  sources: MergeSource[];
+  policy: MergePolicy;
+  keyStrategy: MergeKeyStrategy;
+  onPolicyChange: (policy: MergePolicy) => void;
+  onKeyStrategyChange: (strategy: MergeKeyStrategy) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export function MergeConflictSummary({
+  sources,
+  policy,
+  keyStrategy,
+  onPolicyChange,
+  onKeyStrategyChange,
+  onConfirm,
+  onCancel
+}: MergeConflictSummaryProps) {
+  const result = useMemo(
+    () => mergeSources(sources, policy, keyStrategy),
+    [sources, policy, keyStrategy]
+  );
+
+  const totalRows = sources.reduce((sum, source) => sum + source.data.length, 0);
+  const crossFileConflicts = result.conflicts.filter(c => new Set(c.files).size > 1).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="w-5 h-5" />
+          Review Duplicate Repositories
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {result.conflicts.length.toLocaleString()} repositories appear more than once
+          ({crossFileConflicts.toLocaleString()} across different files).
+          Choose how to combine them before the data is loaded.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <Label>Conflict policy</Label>
+            <RadioGroup value={policy} onValueChange={(value: MergePolicy) => onPolicyChange(value)}>
+              {MERGE_POLICIES.map(option => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <RadioGroupItem value={option.value} id={`merge-${option.value}`} className="mt-1" />
+                  <label htmlFor={`merge-${option.value}`} className="text-sm">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="space-y-3">
+            <Label>Match repositories by</Label>
+            <Select value={keyStrategy} onValueChange={(value: MergeKeyStrategy) => onKeyStrategyChange(value)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="name">Org_Name + Repo_Name</SelectItem>
+                <SelectItem value="url">Full_URL</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Badge variant="secondary">{totalRows.toLocaleString()} rows uploaded</Badge>
+              <Badge variant="outline">{result.removedRows.toLocaleString()} duplicates removed</Badge>
+              <Badge variant="default">{result.data.length.toLocaleString()} repositories after merge</Badge>
+            </div>
+          </div>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Repository</TableHead>
+                <TableHead>Found In</TableHead>
+                <TableHead>Differing Columns</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.conflicts.slice(0, PREVIEW_LIMIT).map(conflict => (
+                <TableRow key={conflict.key}>
+                  <TableCell className="font-medium">{conflict.key}</TableCell>
+                  <TableCell className="text-xs">{conflict.files.join(', ')}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {conflict.differingColumns.length > 0 ? conflict.differingColumns.join(', ') : 'Identical'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {result.conflicts.length > PREVIEW_LIMIT && (
+          <p className="text-xs text-muted-foreground">
+            Showing {PREVIEW_LIMIT} of {result.conflicts.length.toLocaleString()} duplicate repositories
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Discard Upload
+          </Button>
+          <Button onClick={onConfirm}>
+            Load {result.data.length.toLocaleString()} Repositories
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowUp, ArrowDown, DownloadSimple, Plus, Trash } from '@phosphor-icons/react';
+import { MigrationScoreBadge } from '@/components/MigrationScoreBadge';
+import { RepositoryData } from '@/types/repository';
+import { IssueRule, IssueRuleMatch, ScoringModel } from '@/types/migration';
+import { DEFAULT_ISSUE_RULES, compileIssueRules, summarizeIssueCategories } from '@/lib/issueClassifier';
+import { toCSV, downloadFile } from '@/lib/export';
+import { DISPLAY_LIMIT, formatSize } from '@/lib/format';
+
+interface MigrationIssuesProps {
+  data: RepositoryData[];
+  rules: IssueRule[];
+  scoringModel: ScoringModel;
+  onRulesChange: (rules: IssueRule[]) => void;
+}
+
+export function MigrationIssues({ data, rules, scoringModel, onRulesChange }: MigrationIssuesProps) {
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+
+  const { matchers, errors } = useMemo(() => compileIssueRules(rules), [rules]);
+  const categories = useMemo(() => summarizeIssueCategories(data, matchers), [data, matchers]);
+  const affectedCount = categories.reduce((sum, category) => sum + category.repos.length, 0);
+
+  const selected = categories.find(category => category.category === selectedCategory) ?? categories[0];
+
+  const updateRule = (id: string, changes: Partial<IssueRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onRulesChange(next);
+  };
+
+  const addRule = () => {
+    onRulesChange([...rules, { id: crypto.randomUUID(), category: 'New category', match: 'keyword', pattern: '' }]);
+  };
+
+  const handleExport = () => {
+    const rows = [
+      ['Category', 'Org_Name', 'Repo_Name', 'Repo_Size_mb', 'Record_Count', 'Migration_Issue'],
+      ...categories.flatMap(category => category.repos.map(repo => [
+        category.category,
+        repo.Org_Name,
+        repo.Repo_Name,
+        repo.Repo_Size_mb,
+        repo.Record_Count,
+        repo.Migration_Issue
+      ]))
+    ];
+    downloadFile('migration-issues.csv', toCSV(rows));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Migration Blockers</span>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={affectedCount === 0}>
+              <DownloadSimple className="w-4 h-4 mr-2" />
+              Download CSV
+            </Button>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {affectedCount.toLocaleString()} of {data.length.toLocaleString()} repositories report a Migration_Issue.
+            Select a category to see the affected repositories.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No repositories report a Migration_Issue</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Repos</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Total Size</TableHead>
+                    <TableHead className="text-right">Median Size</TableHead>
+                    <TableHead className="text-right">Max Size</TableHead>
+                    <TableHead className="text-right">Total Records</TableHead>
+                    <TableHead className="text-right">Median Records</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map(category => (
+                    <TableRow
+                      key={category.category}
+                      className={`cursor-pointer ${category === selected ? 'bg-muted/50' : ''}`}
+                      onClick={() => setSelectedCategory(category.category)}
+                    >
+                      <TableCell className="font-medium">{category.category}</TableCell>
+                      <TableCell className="text-right font-mono">{category.repos.length.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {((category.repos.length / affectedCount) * 100).toFixed(1)}%
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatSize(category.totalSizeMb)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatSize(category.size.p50)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatSize(category.size.max)}</TableCell>
+                      <TableCell className="text-right font-mono">{category.totalRecords.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{category.records.p50.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {selected.category}
+              <Badge variant="secondary">{selected.repos.length.toLocaleString()} repos</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-auto max-h-[28rem] border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Repository</TableHead>
+                    <TableHead>Complexity</TableHead>
+                    <TableHead>Migration Issue</TableHead>
+                    <TableHead className="text-right">Size</TableHead>
+                    <TableHead className="text-right">Records</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.repos.slice(0, DISPLAY_LIMIT).map((repo, index) => (
+                    <TableRow key={`${repo.Org_Name}/${repo.Repo_Name}/${index}`}>
+                      <TableCell className="font-medium whitespace-nowrap">{repo.Org_Name}/{repo.Repo_Name}</TableCell>
+                      <TableCell><MigrationScoreBadge repo={repo} model={scoringModel} /></TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-md truncate" title={repo.Migration_Issue}>
+                        {repo.Migration_Issue}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatSize(repo.Repo_Size_mb)}</TableCell>
+                      <TableCell className="text-right font-mono">{repo.Record_Count.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {selected.repos.length > DISPLAY_LIMIT && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Showing {DISPLAY_LIMIT.toLocaleString()} of {selected.repos.length.toLocaleString()}. Download the CSV for the full list.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Classification Rules</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => onRulesChange(DEFAULT_ISSUE_RULES)}>
+                Reset to defaults
+              </Button>
+              <Button variant="outline" size="sm" onClick={addRule}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add rule
+              </Button>
+            </div>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Rules are tried from top to bottom and the first match sets the category. Keyword rules match any of
+            their comma-separated keywords; regex rules are case-insensitive.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rules.map((rule, index) => {
+            const error = errors.find(e => e.ruleId === rule.id);
+            return (
+              <div key={rule.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={rule.category}
+                    onChange={(e) => updateRule(rule.id, { category: e.target.value })}
+                    className="h-8 w-48"
+                    aria-label="Category"
+                  />
+                  <Select value={rule.match} onValueChange={(value) => updateRule(rule.id, { match: value as IssueRuleMatch })}>
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="keyword">Keywords</SelectItem>
+                      <SelectItem value="regex">Regex</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                    className={`h-8 flex-1 font-mono text-sm ${error ? 'border-destructive' : ''}`}
+                    placeholder={rule.match === 'keyword' ? 'lfs, large file' : 'too many (issues|comments)'}
+                    aria-label="Pattern"
+                  />
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Move up" disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Move down" disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title="Delete rule"
+                    onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                  >
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </div>
+                {error && <p className="text-xs text-destructive">{error.message}</p>}
+              </div>
+            );
+          })}
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">No rules; every issue is uncategorized</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
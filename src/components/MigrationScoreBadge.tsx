@@ -0,0 +1,25 @@
+import { Badge } from '@/components/ui/badge';
+import { RepositoryData } from '@/types/repository';
+import { ScoringModel } from '@/types/migration';
+import { scoreRepository, getTierInfo, getFactorLabel } from '@/lib/migrationScore';
+
+interface MigrationScoreBadgeProps {
+  repo: RepositoryData;
+  model: ScoringModel;
+}
+
+export function MigrationScoreBadge({ repo, model }: MigrationScoreBadgeProps) {
+  const { score, tier, contributions } = scoreRepository(repo, model);
+  const info = getTierInfo(tier);
+  const drivers = contributions
+    .filter(c => c.points > 0)
+    .slice(0, 3)
+    .map(c => `${getFactorLabel(c.factor)}: ${c.points.toFixed(1)}`)
+    .join('\n');
+
+  return (
+    <Badge variant="outline" className={info.className} title={drivers || 'No complexity factors'}>
+      {info.label} · {score.toFixed(0)}
+    </Badge>
+  );
+}
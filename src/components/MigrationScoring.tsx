@@ -0,0 +1,246 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DownloadSimple } from '@phosphor-icons/react';
+import { RepositoryData } from '@/types/repository';
+import { MigrationTier, ScoringFactorId, ScoringModel } from '@/types/migration';
+import {
+  SCORING_FACTORS,
+  MIGRATION_TIERS,
+  DEFAULT_SCORING_MODEL,
+  scoreRepository,
+  getFactorLabel,
+  getTierInfo
+} from '@/lib/migrationScore';
+import { toCSV, downloadFile } from '@/lib/export';
+import { DISPLAY_LIMIT } from '@/lib/format';
+
+interface MigrationScoringProps {
+  data: RepositoryData[];
+  model: ScoringModel;
+  onModelChange: (model: ScoringModel) => void;
+}
+
+const ALL_TIERS = 'all';
+
+const toNumber = (text: string) => {
+  const value = Number(text);
+  return Number.isFinite(value) ? Math.max(0, value) : 0;
+};
+
+const formatReference = (value: number) => value.toLocaleString();
+
+export function MigrationScoring({ data, model, onModelChange }: MigrationScoringProps) {
+  const [tierFilter, setTierFilter] = useState<MigrationTier | typeof ALL_TIERS>(ALL_TIERS);
+
+  const scored = useMemo(
+    () => data
+      .map(repo => ({ repo, result: scoreRepository(repo, model) }))
+      .sort((a, b) => b.result.score - a.result.score),
+    [data, model]
+  );
+
+  const tierCounts = useMemo(() => {
+    const counts: Record<MigrationTier, number> = { easy: 0, moderate: 0, complex: 0, blocked: 0 };
+    scored.forEach(({ result }) => counts[result.tier]++);
+    return counts;
+  }, [scored]);
+
+  const visible = useMemo(
+    () => (tierFilter === ALL_TIERS ? scored : scored.filter(({ result }) => result.tier === tierFilter)),
+    [scored, tierFilter]
+  );
+
+  const setWeight = (factor: ScoringFactorId, text: string) => {
+    onModelChange({ ...model, weights: { ...model.weights, [factor]: toNumber(text) } });
+  };
+
+  const setThreshold = (tier: keyof ScoringModel['thresholds'], text: string) => {
+    onModelChange({ ...model, thresholds: { ...model.thresholds, [tier]: Math.min(100, toNumber(text)) } });
+  };
+
+  const handleExport = () => {
+    const rows = [
+      ['Org_Name', 'Repo_Name', 'Score', 'Tier', ...SCORING_FACTORS.map(factor => factor.label)],
+      ...visible.map(({ repo, result }) => [
+        repo.Org_Name,
+        repo.Repo_Name,
+        result.score,
+        getTierInfo(result.tier).label,
+        ...SCORING_FACTORS.map(factor => {
+          const contribution = result.contributions.find(c => c.factor === factor.id);
+          return contribution ? Math.round(contribution.points * 10) / 10 : 0;
+        })
+      ])
+    ];
+    downloadFile('migration-complexity-scores.csv', toCSV(rows));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {MIGRATION_TIERS.map(info => (
+          <Card
+            key={info.tier}
+            className={`cursor-pointer ${tierFilter === info.tier ? 'ring-2 ring-primary' : ''}`}
+            onClick={() => setTierFilter(tierFilter === info.tier ? ALL_TIERS : info.tier)}
+          >
+            <CardContent className="p-4">
+              <Badge variant="outline" className={info.className}>{info.label}</Badge>
+              <div className="text-2xl font-semibold font-mono mt-2">{tierCounts[info.tier].toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground">
+                {data.length > 0 ? ((tierCounts[info.tier] / data.length) * 100).toFixed(1) : '0.0'}% of repositories
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Scoring Model</span>
+            <Button variant="outline" size="sm" onClick={() => onModelChange(DEFAULT_SCORING_MODEL)}>
+              Reset to defaults
+            </Button>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Each factor scales logarithmically from its low to its high reference value. The score is the weighted
+            average of the factors on a 0-100 scale. Changes are saved automatically.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {SCORING_FACTORS.map(factor => (
+              <div key={factor.id} className="space-y-1">
+                <Label htmlFor={`weight-${factor.id}`}>{factor.label}</Label>
+                <Input
+                  id={`weight-${factor.id}`}
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={model.weights[factor.id]}
+                  onChange={(e) => setWeight(factor.id, e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {factor.id === 'migrationIssue'
+                    ? 'Any Migration_Issue text'
+                    : `${formatReference(factor.low)} – ${formatReference(factor.high)}`}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            {(['moderate', 'complex', 'blocked'] as const).map(tier => (
+              <div key={tier} className="space-y-1">
+                <Label htmlFor={`threshold-${tier}`}>{getTierInfo(tier).label} from</Label>
+                <Input
+                  id={`threshold-${tier}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="w-28"
+                  value={model.thresholds[tier]}
+                  onChange={(e) => setThreshold(tier, e.target.value)}
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="block-on-issue"
+                checked={model.blockOnMigrationIssue}
+                onCheckedChange={(checked) => onModelChange({ ...model, blockOnMigrationIssue: checked })}
+              />
+              <label htmlFor="block-on-issue" className="text-sm text-muted-foreground">
+                Any Migration_Issue blocks the repository
+              </label>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Repositories by Complexity</span>
+            <div className="flex items-center gap-2">
+              <Select value={tierFilter} onValueChange={(value) => setTierFilter(value as MigrationTier | typeof ALL_TIERS)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TIERS}>All tiers</SelectItem>
+                  {MIGRATION_TIERS.map(info => (
+                    <SelectItem key={info.tier} value={info.tier}>{info.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={visible.length === 0}>
+                <DownloadSimple className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-auto max-h-[36rem] border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Repository</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead>Tier</TableHead>
+                  <TableHead>Main Factors</TableHead>
+                  <TableHead className="text-right">Size (MB)</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                      No repositories in this tier
+                    </TableCell>
+                  </TableRow>
+                )}
+                {visible.slice(0, DISPLAY_LIMIT).map(({ repo, result }, index) => {
+                  const info = getTierInfo(result.tier);
+                  return (
+                    <TableRow key={`${repo.Org_Name}/${repo.Repo_Name}/${index}`}>
+                      <TableCell className="font-medium">{repo.Org_Name}/{repo.Repo_Name}</TableCell>
+                      <TableCell className="text-right font-mono">{result.score.toFixed(1)}</TableCell>
+                      <TableCell><Badge variant="outline" className={info.className}>{info.label}</Badge></TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {result.contributions.filter(c => c.points > 0).slice(0, 3).map(c => (
+                            <Badge key={c.factor} variant="secondary" className="text-xs">
+                              {getFactorLabel(c.factor)} +{c.points.toFixed(1)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{repo.Repo_Size_mb.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{repo.Record_Count.toLocaleString()}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {visible.length > DISPLAY_LIMIT && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing {DISPLAY_LIMIT.toLocaleString()} of {visible.length.toLocaleString()}. Download the CSV for the full list.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { DownloadSimple } from '@phosphor-icons/react';
+import { RepositoryData, ColumnInfo } from '@/types/repository';
+import { getNumericColumns, getGroupByColumns } from '@/lib/columnTypes';
+import { buildPivot, pivotToRows, PivotAggregation, PivotConfig, PIVOT_AGGREGATIONS } from '@/lib/pivot';
+import { toCSV, downloadFile } from '@/lib/export';
+import { DISPLAY_LIMIT, formatColumn } from '@/lib/format';
+
+interface PivotTableProps {
+  data: RepositoryData[];
+  extraColumns?: ColumnInfo[];
+}
+
+const NONE = 'none';
+
+const formatCell = (value: number | null) => {
+  if (value === null) return '—';
+  return (Math.round(value * 100) / 100).toLocaleString();
+};
+
+export function PivotTable({ data, extraColumns = [] }: PivotTableProps) {
+  const dimensions = useMemo(() => getGroupByColumns(extraColumns), [extraColumns]);
+  const numericColumns = useMemo(() => getNumericColumns(extraColumns), [extraColumns]);
+
+  const [rowDimension, setRowDimension] = useState(dimensions[0]);
+  const [subRowDimension, setSubRowDimension] = useState(NONE);
+  const [columnDimension, setColumnDimension] = useState('isArchived');
+  const [valueColumn, setValueColumn] = useState('Repo_Size_mb');
+  const [aggregation, setAggregation] = useState<PivotAggregation>('sum');
+
+  // Extra columns change with the dataset, so fall back when a chosen one disappears
+  const validDimension = (column: string) => (dimensions.includes(column) ? column : NONE);
+
+  const config = useMemo<PivotConfig>(() => {
+    const rows = [dimensions.includes(rowDimension) ? rowDimension : dimensions[0]];
+    const subRows = validDimension(subRowDimension);
+    if (subRows !== NONE && subRows !== rows[0]) rows.push(subRows);
+    const columns = validDimension(columnDimension);
+    return {
+      rows,
+      columns: columns === NONE ? null : columns,
+      value: numericColumns.includes(valueColumn) ? valueColumn : numericColumns[0],
+      aggregation
+    };
+  }, [dimensions, numericColumns, rowDimension, subRowDimension, columnDimension, valueColumn, aggregation]);
+
+  const pivot = useMemo(() => buildPivot(data, config), [data, config]);
+
+  const handleExport = () => {
+    const name = config.aggregation === 'count' ? 'count' : `${config.aggregation}-${config.value}`;
+    downloadFile(`pivot-${name}-by-${config.rows.join('-')}.csv`, toCSV(pivotToRows(pivot, config)));
+  };
+
+  const renderDimensionSelect = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    allowNone: boolean
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={allowNone ? validDimension(value) : config.rows[0]} onValueChange={onChange}>
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {allowNone && <SelectItem value={NONE}>None</SelectItem>}
+          {dimensions.map(column => (
+            <SelectItem key={column} value={column}>{formatColumn(column)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const visibleRows = pivot.rows.slice(0, DISPLAY_LIMIT);
+  const hasSubRows = config.rows.length > 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Pivot Table</span>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={data.length === 0}>
+            <DownloadSimple className="w-4 h-4 mr-2" />
+            Download CSV
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          {renderDimensionSelect('Rows', rowDimension, setRowDimension, false)}
+          {renderDimensionSelect('Then by', subRowDimension, setSubRowDimension, true)}
+          {renderDimensionSelect('Columns', columnDimension, setColumnDimension, true)}
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Aggregation</Label>
+            <Select value={aggregation} onValueChange={(value) => setAggregation(value as PivotAggregation)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PIVOT_AGGREGATIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Value</Label>
+            <Select value={config.value} onValueChange={setValueColumn} disabled={aggregation === 'count'}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {numericColumns.map(column => (
+                  <SelectItem key={column} value={column}>{formatColumn(column)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {data.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No repositories match the current filters</p>
+        ) : (
+          <>
+            <div className="overflow-auto max-h-[36rem] border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {config.rows.map(column => (
+                      <TableHead key={column} className="font-semibold">{formatColumn(column)}</TableHead>
+                    ))}
+                    {pivot.columnKeys.map(key => (
+                      <TableHead key={key} className="text-right">{key}</TableHead>
+                    ))}
+                    <TableHead className="text-right font-semibold">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map(row => (
+                    <TableRow key={`${row.keys.join('/')}${row.isSubtotal ? '/subtotal' : ''}`} className={row.isSubtotal ? 'bg-muted/50 font-medium' : ''}>
+                      {row.isSubtotal ? (
+                        <TableCell colSpan={config.rows.length}>{row.keys[0]} subtotal</TableCell>
+                      ) : (
+                        row.keys.map((key, index) => (
+                          <TableCell key={index} className={index === 0 ? 'font-medium' : ''}>
+                            {hasSubRows && index === 0 ? <span className="text-muted-foreground">{key}</span> : key}
+                          </TableCell>
+                        ))
+                      )}
+                      {row.cells.map((value, index) => (
+                        <TableCell key={index} className="text-right font-mono">{formatCell(value)}</TableCell>
+                      ))}
+                      <TableCell className="text-right font-mono font-semibold">{formatCell(row.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted font-semibold">
+                    <TableCell colSpan={config.rows.length}>Total</TableCell>
+                    {pivot.columnTotals.map((value, index) => (
+                      <TableCell key={index} className="text-right font-mono">{formatCell(value)}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono">{formatCell(pivot.grandTotal)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+            {pivot.rows.length > DISPLAY_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing {DISPLAY_LIMIT.toLocaleString()} of {pivot.rows.length.toLocaleString()} rows. Download the CSV for the full grid.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
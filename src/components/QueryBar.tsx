@@ -0,0 +1,123 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { MagnifyingGlass } from '@phosphor-icons/react';
+import { ColumnInfo } from '@/types/repository';
+import { parseQuery, formatQueryError, getQuerySuggestions, QuerySuggestions } from '@/lib/query';
+
+interface QueryBarProps {
+  query: string;
+  columns: ColumnInfo[];
+  isFiltering?: boolean;
+  onChange: (query: string) => void;
+}
+
+const SUGGESTION_LIMIT = 8;
+
+export function QueryBar({ query, columns, isFiltering = false, onChange }: QueryBarProps) {
+  const [draft, setDraft] = useState(query);
+  const [completion, setCompletion] = useState<QuerySuggestions | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Follow the applied query when it changes from outside (clearing filters, loading a view)
+  useEffect(() => {
+    setDraft(query);
+  }, [query]);
+
+  // The draft is validated while typing but only applied on Enter
+  const { error } = useMemo(() => parseQuery(draft, columns), [draft, columns]);
+  const suggestions = completion?.suggestions.slice(0, SUGGESTION_LIMIT) ?? [];
+
+  const updateCompletion = (text: string, cursor: number) => {
+    const next = getQuerySuggestions(text, cursor, columns);
+    setCompletion(next.suggestions.length > 0 && next.to > next.from ? next : null);
+    setHighlighted(0);
+  };
+
+  const accept = (suggestion: string) => {
+    if (!completion) return;
+    const text = `${draft.slice(0, completion.from)}${suggestion} ${draft.slice(completion.to).trimStart()}`;
+    const cursor = completion.from + suggestion.length + 1;
+    setDraft(text);
+    setCompletion(null);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(cursor, cursor));
+  };
+
+  const apply = () => {
+    setCompletion(null);
+    if (!error) onChange(draft.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab') {
+        e.preventDefault();
+        accept(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setCompletion(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      apply();
+    }
+  };
+
+  return (
+    <div className="w-full space-y-1">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <MagnifyingGlass className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              updateCompletion(e.target.value, e.target.selectionStart ?? e.target.value.length);
+            }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setCompletion(null)}
+            placeholder='Query, e.g. Repo_Size_mb > 1000 and not isArchived and Org_Name in ("core", "infra")'
+            aria-invalid={Boolean(error)}
+            className="h-8 pl-8 font-mono text-sm"
+            spellCheck={false}
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute z-50 mt-1 w-64 rounded-md border bg-popover shadow-md py-1">
+              {suggestions.map((suggestion, index) => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  className={`block w-full text-left px-3 py-1 font-mono text-sm ${index === highlighted ? 'bg-accent text-accent-foreground' : ''}`}
+                  // Keep focus in the input so the blur handler doesn't close the list first
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    accept(suggestion);
+                  }}
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <Button variant="outline" size="sm" className="h-8" disabled={Boolean(error) || draft.trim() === query} onClick={apply}>
+          {isFiltering ? 'Filtering...' : 'Apply'}
+        </Button>
+      </div>
+      {error && (
+        <p className="text-xs text-destructive font-mono">{formatQueryError(error)}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState, useMemo, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DownloadSimple, UploadSimple, Plus, Trash } from '@phosphor-icons/react';
+import { MigrationScoreBadge } from '@/components/MigrationScoreBadge';
+import { RepositoryData, ColumnInfo } from '@/types/repository';
+import { LimitOperator, LimitRule, LimitSeverity, ScoringModel } from '@/types/migration';
+import { getNumericColumns } from '@/lib/columnTypes';
+import {
+  DEFAULT_LIMIT_RULES,
+  LIMIT_DATE_COLUMNS,
+  LIMIT_OPERATORS,
+  LIMIT_SEVERITIES,
+  evaluateLimitRules,
+  describeFinding,
+  getSeverityInfo,
+  exportLimitRules,
+  importLimitRules
+} from '@/lib/limitRules';
+import { toCSV, downloadFile } from '@/lib/export';
+import { DISPLAY_LIMIT, formatColumn } from '@/lib/format';
+
+interface ReadinessProps {
+  data: RepositoryData[];
+  rules: LimitRule[];
+  asOfDate: string;
+  scoringModel: ScoringModel;
+  extraColumns?: ColumnInfo[];
+  onRulesChange: (rules: LimitRule[]) => void;
+}
+
+const ALL_SEVERITIES = 'all';
+
+export function Readiness({ data, rules, asOfDate, scoringModel, extraColumns = [], onRulesChange }: ReadinessProps) {
+  const [severityFilter, setSeverityFilter] = useState<LimitSeverity | typeof ALL_SEVERITIES>(ALL_SEVERITIES);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const numericColumns = useMemo(() => getNumericColumns(extraColumns), [extraColumns]);
+  const findings = useMemo(() => evaluateLimitRules(data, rules, asOfDate), [data, rules, asOfDate]);
+
+  const flaggedRepos = useMemo(() => {
+    const worst = new Map<RepositoryData, LimitSeverity>();
+    findings.forEach(finding => {
+      if (!worst.has(finding.repo)) worst.set(finding.repo, finding.rule.severity);
+    });
+    return worst;
+  }, [findings]);
+
+  const repoCountBySeverity = useMemo(() => {
+    const counts: Record<LimitSeverity, number> = { critical: 0, warning: 0, info: 0 };
+    flaggedRepos.forEach(severity => counts[severity]++);
+    return counts;
+  }, [flaggedRepos]);
+
+  const findingsByRule = useMemo(() => {
+    const counts = new Map<string, number>();
+    findings.forEach(finding => counts.set(finding.rule.id, (counts.get(finding.rule.id) ?? 0) + 1));
+    return counts;
+  }, [findings]);
+
+  const visible = useMemo(
+    () => (severityFilter === ALL_SEVERITIES ? findings : findings.filter(f => f.rule.severity === severityFilter)),
+    [findings, severityFilter]
+  );
+
+  const updateRule = (id: string, changes: Partial<LimitRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    onRulesChange([
+      ...rules,
+      { id: crypto.randomUUID(), name: 'New rule', column: 'Repo_Size_mb', operator: 'above', threshold: 0, severity: 'warning' }
+    ]);
+  };
+
+  // Date rules need a date column and numeric rules a numeric one
+  const changeOperator = (rule: LimitRule, operator: LimitOperator) => {
+    const wantsDate = operator === 'olderThan';
+    const hasDate = LIMIT_DATE_COLUMNS.includes(rule.column);
+    const column = wantsDate === hasDate ? rule.column : wantsDate ? LIMIT_DATE_COLUMNS[0] : numericColumns[0];
+    updateRule(rule.id, { operator, column });
+  };
+
+  // Imported rules replace rules with the same name
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    const result = importLimitRules(await file.text());
+    if (result.rules.length > 0) {
+      const names = new Set(result.rules.map(rule => rule.name));
+      onRulesChange([...rules.filter(rule => !names.has(rule.name)), ...result.rules]);
+    }
+    setImportMessage(result.error);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleExportFindings = () => {
+    const rows = [
+      ['Severity', 'Rule', 'Org_Name', 'Repo_Name', 'Column', 'Value', 'Threshold'],
+      ...visible.map(finding => [
+        finding.rule.severity,
+        finding.rule.name,
+        finding.repo.Org_Name,
+        finding.repo.Repo_Name,
+        finding.rule.column,
+        Math.round(finding.value * 100) / 100,
+        finding.rule.threshold
+      ])
+    ];
+    downloadFile('readiness-findings.csv', toCSV(rows));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-xs text-muted-foreground">Ready (no findings)</div>
+            <div className="text-2xl font-semibold font-mono mt-1">{(data.length - flaggedRepos.size).toLocaleString()}</div>
+          </CardContent>
+        </Card>
+        {LIMIT_SEVERITIES.map(info => (
+          <Card
+            key={info.severity}
+            className={`cursor-pointer ${severityFilter === info.severity ? 'ring-2 ring-primary' : ''}`}
+            onClick={() => setSeverityFilter(severityFilter === info.severity ? ALL_SEVERITIES : info.severity)}
+          >
+            <CardContent className="p-4">
+              <Badge variant="outline" className={info.className}>{info.label}</Badge>
+              <div className="text-2xl font-semibold font-mono mt-1">{repoCountBySeverity[info.severity].toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground">repositories at worst {info.label.toLowerCase()}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Findings</span>
+            <div className="flex items-center gap-2">
+              <Select value={severityFilter} onValueChange={(value) => setSeverityFilter(value as LimitSeverity | typeof ALL_SEVERITIES)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SEVERITIES}>All severities</SelectItem>
+                  {LIMIT_SEVERITIES.map(info => (
+                    <SelectItem key={info.severity} value={info.severity}>{info.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={handleExportFindings} disabled={visible.length === 0}>
+                <DownloadSimple className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </div>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {findings.length.toLocaleString()} findings across {flaggedRepos.size.toLocaleString()} repositories.
+            Ages are measured as of {asOfDate.slice(0, 10)}.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-auto max-h-[32rem] border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Repository</TableHead>
+                  <TableHead>Complexity</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Detail</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                      No repositories break these rules
+                    </TableCell>
+                  </TableRow>
+                )}
+                {visible.slice(0, DISPLAY_LIMIT).map((finding, index) => {
+                  const info = getSeverityInfo(finding.rule.severity);
+                  return (
+                    <TableRow key={`${finding.rule.id}/${finding.repo.Org_Name}/${finding.repo.Repo_Name}/${index}`}>
+                      <TableCell><Badge variant="outline" className={info.className}>{info.label}</Badge></TableCell>
+                      <TableCell className="font-medium">{finding.repo.Org_Name}/{finding.repo.Repo_Name}</TableCell>
+                      <TableCell><MigrationScoreBadge repo={finding.repo} model={scoringModel} /></TableCell>
+                      <TableCell>{finding.rule.name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground font-mono">{describeFinding(finding)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {visible.length > DISPLAY_LIMIT && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing {DISPLAY_LIMIT.toLocaleString()} of {visible.length.toLocaleString()}. Download the CSV for the full list.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Limit Rules</span>
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => handleImport(e.target.files)}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <UploadSimple className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={rules.length === 0}
+                onClick={() => downloadFile('migration-limit-rules.json', exportLimitRules(rules), 'application/json;charset=utf-8')}
+              >
+                <DownloadSimple className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onRulesChange(DEFAULT_LIMIT_RULES)}>
+                Reset to defaults
+              </Button>
+              <Button variant="outline" size="sm" onClick={addRule}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add rule
+              </Button>
+            </div>
+          </CardTitle>
+          {importMessage && <p className="text-sm text-destructive">{importMessage}</p>}
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rules.length === 0 && <p className="text-sm text-muted-foreground">No rules; every repository passes</p>}
+          {rules.map(rule => {
+            const columns = rule.operator === 'olderThan' ? LIMIT_DATE_COLUMNS : numericColumns;
+            return (
+              <div key={rule.id} className="flex flex-wrap items-center gap-2">
+                <Input
+                  value={rule.name}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  className="h-8 w-56"
+                  aria-label="Rule name"
+                />
+                <Select value={rule.column} onValueChange={(column) => updateRule(rule.id, { column })}>
+                  <SelectTrigger className="h-8 w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!columns.includes(rule.column) && <SelectItem value={rule.column}>{formatColumn(rule.column)}</SelectItem>}
+                    {columns.map(column => (
+                      <SelectItem key={column} value={column}>{formatColumn(column)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={rule.operator} onValueChange={(value) => changeOperator(rule, value as LimitOperator)}>
+                  <SelectTrigger className="h-8 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIMIT_OPERATORS.map(option => (
+                      <SelectItem key={option.operator} value={option.operator}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  value={rule.threshold}
+                  onChange={(e) => updateRule(rule.id, { threshold: Number(e.target.value) || 0 })}
+                  className="h-8 w-32"
+                  aria-label="Threshold"
+                />
+                <Select value={rule.severity} onValueChange={(value) => updateRule(rule.id, { severity: value as LimitSeverity })}>
+                  <SelectTrigger className="h-8 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIMIT_SEVERITIES.map(info => (
+                      <SelectItem key={info.severity} value={info.severity}>{info.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Badge variant="secondary" className="font-mono">{(findingsByRule.get(rule.id) ?? 0).toLocaleString()}</Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Delete rule"
+                  onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                >
+                  <Trash className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState, useRef } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Bookmarks, DownloadSimple, UploadSimple, Trash } from '@phosphor-icons/react';
+import { SavedView } from '@/types/views';
+import { countActiveFilters } from '@/lib/filters';
+import { exportViews } from '@/lib/views';
+import { downloadFile } from '@/lib/export';
+
+interface SavedViewsProps {
+  views: SavedView[];
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onDelete: (viewId: string) => void;
+  // Returns an error message when the file could not be read
+  onImport: (text: string) => string | null;
+}
+
+const downloadViews = (views: SavedView[], fileName: string) =>
+  downloadFile(fileName, exportViews(views), 'application/json;charset=utf-8');
+
+const toFileName = (name: string) => `${name.replace(/[^A-Za-z0-9-_]+/g, '-').toLowerCase()}.view.json`;
+
+export function SavedViews({ views, onApply, onSave, onDelete, onImport }: SavedViewsProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const save = () => {
+    if (!viewName.trim()) return;
+    onSave(viewName.trim());
+    setViewName('');
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setImportMessage(onImport(await file.text()));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8">
+            <Bookmarks className="w-4 h-4 mr-2" />
+            Views
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <div className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</div>
+          )}
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onSelect={() => onApply(view)}>
+              <span className="truncate">{view.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsManaging(true)}>
+            Save or manage views...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isManaging} onOpenChange={(open) => { setIsManaging(open); setImportMessage(null); }}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Saved Views</DialogTitle>
+            <DialogDescription>
+              A view stores the active tab, filters and chart settings. Saving with an existing name replaces it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && save()}
+              placeholder="Name for the current view"
+              className="h-8"
+            />
+            <Button size="sm" className="h-8" disabled={!viewName.trim()} onClick={save}>
+              Save current view
+            </Button>
+          </div>
+
+          <div className="overflow-y-auto flex-1 min-h-0 border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Tab</TableHead>
+                  <TableHead className="text-right">Filters</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {views.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                      No saved views yet
+                    </TableCell>
+                  </TableRow>
+                )}
+                {views.map(view => (
+                  <TableRow key={view.id}>
+                    <TableCell className="font-medium">{view.name}</TableCell>
+                    <TableCell><Badge variant="outline">{view.tab}</Badge></TableCell>
+                    <TableCell className="text-right font-mono text-sm">{countActiveFilters(view.filters)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{new Date(view.updatedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7"
+                          onClick={() => {
+                            onApply(view);
+                            setIsManaging(false);
+                          }}
+                        >
+                          Apply
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Export view"
+                          onClick={() => downloadViews([view], toFileName(view.name))}
+                        >
+                          <DownloadSimple className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Delete view"
+                          onClick={() => onDelete(view.id)}
+                        >
+                          <Trash className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <p className={`text-sm ${importMessage ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {importMessage ?? 'Share views with teammates as JSON files'}
+            </p>
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => handleImport(e.target.files)}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <UploadSimple className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={views.length === 0}
+                onClick={() => downloadViews(views, 'repository-analysis-views.json')}
+              >
+                <DownloadSimple className="w-4 h-4 mr-2" />
+                Export all
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
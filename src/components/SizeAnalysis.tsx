@@ -1,12 +1,19 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { MigrationScoreBadge } from '@/components/MigrationScoreBadge';
 import { RepositoryData } from '@/types/repository';
+import { ScoringModel, LimitRule } from '@/types/migration';
+import { getRepoFindings, getSeverityInfo, describeFinding } from '@/lib/limitRules';
+import { formatSize } from '@/lib/format';
 
 interface SizeAnalysisProps {
   data: RepositoryData[];
+  scoringModel: ScoringModel;
+  limitRules: LimitRule[];
+  asOfDate: string;
 }
 
-export function SizeAnalysis({ data }: SizeAnalysisProps) {
+export function SizeAnalysis({ data, scoringModel, limitRules, asOfDate }: SizeAnalysisProps) {
   // Sort all data by size first (smallest to largest)
   const sortedData = [...data].sort((a, b) => a.Repo_Size_mb - b.Repo_Size_mb);
   
@@ -19,11 +26,22 @@ export function SizeAnalysis({ data }: SizeAnalysisProps) {
   const p10Repos = sortedData.slice(0, Math.min(10, p10Index + 1));
   const p90Repos = sortedData.slice(Math.max(0, p90Index)).slice(-10); // Get the last 10 (largest)
 
-  const formatSize = (sizeInMB: number) => {
-    if (sizeInMB >= 1000) return `${(sizeInMB / 1000).toFixed(1)} GB`;
-    return `${sizeInMB.toFixed(1)} MB`;
+  const formatSource = (repo: RepositoryData) => {
+    const location = repo.Source_Line ? `${repo.Source_File}:${repo.Source_Line}` : repo.Source_File;
+    const uploaded = repo.Uploaded_At ? ` (uploaded ${new Date(repo.Uploaded_At).toLocaleString()})` : '';
+    return `${location}${uploaded}`;
   };
 
+  const renderFindings = (repo: RepositoryData) =>
+    getRepoFindings(repo, limitRules, asOfDate).map(finding => {
+      const info = getSeverityInfo(finding.rule.severity);
+      return (
+        <Badge key={finding.rule.id} variant="outline" className={info.className} title={describeFinding(finding)}>
+          {finding.rule.name}
+        </Badge>
+      );
+    });
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       <Card>
@@ -42,14 +60,21 @@ export function SizeAnalysis({ data }: SizeAnalysisProps) {
                   <p className="text-sm text-muted-foreground">
                     Size: {formatSize(repo.Repo_Size_mb)}
                   </p>
-                  <div className="flex gap-2 text-xs">
+                  {repo.Source_File && (
+                    <p className="text-xs text-muted-foreground">
+                      Source: {formatSource(repo)}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2 text-xs">
                     {repo.isFork && <Badge variant="outline">Fork</Badge>}
                     {repo.isArchived && <Badge variant="outline">Archived</Badge>}
                     {repo.Is_Empty && <Badge variant="outline">Empty</Badge>}
+                    {renderFindings(repo)}
                   </div>
                 </div>
-                <div className="text-right text-sm text-muted-foreground">
-                  {repo.Record_Count} records
+                <div className="text-right text-sm text-muted-foreground space-y-1">
+                  <div>{repo.Record_Count} records</div>
+                  <MigrationScoreBadge repo={repo} model={scoringModel} />
                 </div>
               </div>
             </div>
@@ -73,14 +98,21 @@ export function SizeAnalysis({ data }: SizeAnalysisProps) {
                   <p className="text-sm text-muted-foreground">
                     Size: {formatSize(repo.Repo_Size_mb)}
                   </p>
-                  <div className="flex gap-2 text-xs">
+                  {repo.Source_File && (
+                    <p className="text-xs text-muted-foreground">
+                      Source: {formatSource(repo)}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2 text-xs">
                     {repo.isFork && <Badge variant="outline">Fork</Badge>}
                     {repo.isArchived && <Badge variant="outline">Archived</Badge>}
                     {repo.Is_Empty && <Badge variant="outline">Empty</Badge>}
+                    {renderFindings(repo)}
                   </div>
                 </div>
-                <div className="text-right text-sm text-muted-foreground">
-                  {repo.Record_Count} records
+                <div className="text-right text-sm text-muted-foreground space-y-1">
+                  <div>{repo.Record_Count} records</div>
+                  <MigrationScoreBadge repo={repo} model={scoringModel} />
                 </div>
               </div>
             </div>
@@ -0,0 +1,322 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { LoadingState } from '@/components/LoadingComponents';
+import { MigrationScoreBadge } from '@/components/MigrationScoreBadge';
+import { RepositoryData, NUMERICAL_COLUMNS } from '@/types/repository';
+import { ScoringModel } from '@/types/migration';
+import { DatasetSnapshot, loadDataset } from '@/lib/datasetStore';
+import { diffSnapshots, getColumnDelta, sortByChange, DiffSortMode, RepoDiff } from '@/lib/snapshotDiff';
+import { DISPLAY_LIMIT, formatColumn } from '@/lib/format';
+
+interface SnapshotDiffProps {
+  snapshots: DatasetSnapshot[];
+  activeSnapshot: DatasetSnapshot | null;
+  data: RepositoryData[];
+  scoringModel: ScoringModel;
+}
+
+type StatusFilter = 'changes' | 'added' | 'removed' | 'changed' | 'archived';
+
+const formatDelta = (value: number) => {
+  const rounded = Math.round(value * 100) / 100;
+  return `${rounded > 0 ? '+' : ''}${rounded.toLocaleString()}`;
+};
+
+const formatRelative = (value: number) => {
+  if (!Number.isFinite(value)) return 'new';
+  return `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+};
+
+const deltaClass = (value: number) =>
+  value > 0 ? 'text-green-700' : value < 0 ? 'text-destructive' : 'text-muted-foreground';
+
+const matchesFilter = (repo: RepoDiff, filter: StatusFilter) => {
+  switch (filter) {
+    case 'changes':
+      return repo.status !== 'unchanged';
+    case 'archived':
+      return repo.archivedChange === 'archived';
+    default:
+      return repo.status === filter;
+  }
+};
+
+export function SnapshotDiff({ snapshots, activeSnapshot, data, scoringModel }: SnapshotDiffProps) {
+  const candidates = useMemo(
+    () => snapshots.filter(snapshot => snapshot.id !== activeSnapshot?.id),
+    [snapshots, activeSnapshot]
+  );
+
+  // Default to the most recent snapshot dated before the active one
+  const defaultBaselineId = useMemo(() => {
+    if (!activeSnapshot) return candidates[0]?.id ?? '';
+    const older = candidates.find(snapshot => snapshot.date <= activeSnapshot.date);
+    return (older ?? candidates[0])?.id ?? '';
+  }, [candidates, activeSnapshot]);
+
+  const [baselineId, setBaselineId] = useState(defaultBaselineId);
+  const [baselineData, setBaselineData] = useState<RepositoryData[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('changes');
+  const [sortColumn, setSortColumn] = useState('Repo_Size_mb');
+  const [sortMode, setSortMode] = useState<DiffSortMode>('absolute');
+
+  useEffect(() => {
+    if (!candidates.some(snapshot => snapshot.id === baselineId)) {
+      setBaselineId(defaultBaselineId);
+    }
+  }, [candidates, baselineId, defaultBaselineId]);
+
+  useEffect(() => {
+    if (!baselineId) return;
+    let cancelled = false;
+    setBaselineData(null);
+    setLoadError(null);
+
+    loadDataset(baselineId)
+      .then(rows => {
+        if (!cancelled) setBaselineData(rows);
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load snapshot');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baselineId]);
+
+  const diff = useMemo(
+    () => (baselineData ? diffSnapshots(baselineData, data) : null),
+    [baselineData, data]
+  );
+
+  const visibleRepos = useMemo(() => {
+    if (!diff) return [];
+    return sortByChange(diff.repos.filter(repo => matchesFilter(repo, statusFilter)), sortColumn, sortMode);
+  }, [diff, statusFilter, sortColumn, sortMode]);
+
+  if (candidates.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <p className="text-muted-foreground">Upload another snapshot to see what changed between inventories</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const baseline = candidates.find(snapshot => snapshot.id === baselineId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center justify-between gap-4">
+            <span>Changes Since Snapshot</span>
+            <div className="flex items-center gap-2 text-sm font-normal">
+              <Select value={baselineId} onValueChange={setBaselineId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>
+                      {snapshot.name} ({snapshot.date})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">→</span>
+              <Badge variant="secondary">{activeSnapshot?.name ?? 'Current data'}</Badge>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        {diff && (
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {[
+                { label: 'Added', value: diff.counts.added },
+                { label: 'Removed', value: diff.counts.removed },
+                { label: 'Changed', value: diff.counts.changed },
+                { label: 'Newly archived', value: diff.counts.archived },
+                { label: 'Unchanged', value: diff.counts.unchanged }
+              ].map(stat => (
+                <div key={stat.label} className="p-3 bg-muted/50 rounded-lg">
+                  <div className="text-xs text-muted-foreground">{stat.label}</div>
+                  <div className="text-lg font-semibold font-mono">{stat.value.toLocaleString()}</div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {loadError && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-destructive">Could not load {baseline?.name}: {loadError}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!diff && !loadError && <LoadingState message="Comparing snapshots..." />}
+
+      {diff && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Aggregate Movement</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      <TableHead className="text-right">Before</TableHead>
+                      <TableHead className="text-right">After</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="text-right">Change %</TableHead>
+                      <TableHead className="text-right">Repos Up</TableHead>
+                      <TableHead className="text-right">Repos Down</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.movement.map(metric => (
+                      <TableRow key={metric.column}>
+                        <TableCell className="font-medium">{formatColumn(metric.column)}</TableCell>
+                        <TableCell className="text-right font-mono">{Math.round(metric.before).toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{Math.round(metric.after).toLocaleString()}</TableCell>
+                        <TableCell className={`text-right font-mono ${deltaClass(metric.delta)}`}>{formatDelta(metric.delta)}</TableCell>
+                        <TableCell className={`text-right font-mono ${deltaClass(metric.delta)}`}>{formatRelative(metric.relative)}</TableCell>
+                        <TableCell className="text-right font-mono">{metric.increased.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{metric.decreased.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex flex-wrap items-center justify-between gap-4">
+                <span>Repository Changes</span>
+                <div className="flex items-center gap-2 text-sm font-normal">
+                  <Select value={statusFilter} onValueChange={(value: StatusFilter) => setStatusFilter(value)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="changes">All changes</SelectItem>
+                      <SelectItem value="added">Added</SelectItem>
+                      <SelectItem value="removed">Removed</SelectItem>
+                      <SelectItem value="changed">Changed</SelectItem>
+                      <SelectItem value="archived">Newly archived</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={sortColumn} onValueChange={setSortColumn}>
+                    <SelectTrigger className="w-52">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NUMERICAL_COLUMNS.map(column => (
+                        <SelectItem key={column} value={column}>{formatColumn(column)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={sortMode} onValueChange={(value: DiffSortMode) => setSortMode(value)}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="absolute">Absolute change</SelectItem>
+                      <SelectItem value="relative">Relative change</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {visibleRepos.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No repositories match this filter</p>
+              ) : (
+                <div className="max-h-[32rem] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Repository</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Complexity</TableHead>
+                        <TableHead className="text-right">Before</TableHead>
+                        <TableHead className="text-right">After</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead className="text-right">Change %</TableHead>
+                        <TableHead>Other Changed Fields</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleRepos.slice(0, DISPLAY_LIMIT).map(repo => {
+                        const delta = getColumnDelta(repo, sortColumn);
+                        const otherDeltas = repo.deltas.filter(d => d.column !== sortColumn);
+
+                        return (
+                          <TableRow key={repo.key}>
+                            <TableCell className="font-medium">{repo.name}</TableCell>
+                            <TableCell>
+                              <div className="flex gap-1">
+                                <Badge variant={repo.status === 'removed' ? 'destructive' : repo.status === 'added' ? 'default' : 'outline'}>
+                                  {repo.status}
+                                </Badge>
+                                {repo.archivedChange && <Badge variant="secondary">{repo.archivedChange}</Badge>}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <MigrationScoreBadge repo={(repo.after ?? repo.before)!} model={scoringModel} />
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{repo.before ? delta.before.toLocaleString() : '—'}</TableCell>
+                            <TableCell className="text-right font-mono">{repo.after ? delta.after.toLocaleString() : '—'}</TableCell>
+                            <TableCell className={`text-right font-mono ${deltaClass(delta.delta)}`}>{formatDelta(delta.delta)}</TableCell>
+                            <TableCell className={`text-right font-mono ${deltaClass(delta.delta)}`}>{formatRelative(delta.relative)}</TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {otherDeltas.slice(0, 4).map(d => (
+                                  <Badge key={d.column} variant="outline" className={`font-mono text-xs ${deltaClass(d.delta)}`}>
+                                    {formatColumn(d.column)} {formatDelta(d.delta)}
+                                  </Badge>
+                                ))}
+                                {otherDeltas.length > 4 && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-xs"
+                                    title={otherDeltas.slice(4).map(d => `${d.column} ${formatDelta(d.delta)}`).join('\n')}
+                                  >
+                                    +{otherDeltas.length - 4} more
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {visibleRepos.length > DISPLAY_LIMIT && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Showing the {DISPLAY_LIMIT} largest changes of {visibleRepos.length.toLocaleString()}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Books, FloppyDisk, Trash, Plus } from '@phosphor-icons/react';
+import { DatasetSnapshot } from '@/lib/datasetStore';
+import { SnapshotDetails } from '@/hooks/useDatasetStore';
+
+interface SnapshotLibraryProps {
+  snapshots: DatasetSnapshot[];
+  activeSnapshotId: string | null;
+  onSwitch: (snapshotId: string) => void;
+  onUpdate: (snapshotId: string, details: SnapshotDetails) => void;
+  onDelete: (snapshotId: string) => void;
+  onNewSnapshot: () => void;
+}
+
+export function SnapshotLibrary({
+  snapshots,
+  activeSnapshotId,
+  onSwitch,
+  onUpdate,
+  onDelete,
+  onNewSnapshot
+}: SnapshotLibraryProps) {
+  const [drafts, setDrafts] = useState<Record<string, SnapshotDetails>>({});
+  const [pendingDelete, setPendingDelete] = useState<DatasetSnapshot | null>(null);
+
+  // Drop edits for snapshots that no longer exist
+  useEffect(() => {
+    setDrafts(prev => Object.fromEntries(
+      Object.entries(prev).filter(([id]) => snapshots.some(snapshot => snapshot.id === id))
+    ));
+  }, [snapshots]);
+
+  const draftFor = (snapshot: DatasetSnapshot) => drafts[snapshot.id] ?? { name: snapshot.name, date: snapshot.date };
+
+  const editDraft = (snapshot: DatasetSnapshot, changes: Partial<SnapshotDetails>) => {
+    setDrafts(prev => ({ ...prev, [snapshot.id]: { ...draftFor(snapshot), ...changes } }));
+  };
+
+  const saveDraft = (snapshot: DatasetSnapshot) => {
+    const draft = draftFor(snapshot);
+    onUpdate(snapshot.id, { name: draft.name.trim() || snapshot.name, date: draft.date || snapshot.date });
+    setDrafts(prev => {
+      const { [snapshot.id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={activeSnapshotId ?? undefined} onValueChange={onSwitch}>
+        <SelectTrigger className="w-64 h-8 text-sm">
+          <SelectValue placeholder="Select snapshot" />
+        </SelectTrigger>
+        <SelectContent>
+          {snapshots.map(snapshot => (
+            <SelectItem key={snapshot.id} value={snapshot.id}>
+              {snapshot.name} ({snapshot.date})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8">
+            <Books className="w-4 h-4 mr-2" />
+            Snapshots
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Snapshot Library</DialogTitle>
+            <DialogDescription>
+              Every upload is kept as a dated snapshot. The active snapshot drives every tab.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-y-auto flex-1 min-h-0 border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Inventory Date</TableHead>
+                  <TableHead className="text-right">Repositories</TableHead>
+                  <TableHead className="text-right">Files</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshots.map(snapshot => {
+                  const draft = draftFor(snapshot);
+                  const isDirty = draft.name !== snapshot.name || draft.date !== snapshot.date;
+                  const isActive = snapshot.id === activeSnapshotId;
+
+                  return (
+                    <TableRow key={snapshot.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={draft.name}
+                            onChange={(e) => editDraft(snapshot, { name: e.target.value })}
+                            className="h-8 w-56"
+                          />
+                          {isActive && <Badge variant="secondary">Active</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="date"
+                          value={draft.date}
+                          onChange={(e) => editDraft(snapshot, { date: e.target.value })}
+                          className="h-8 w-40"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{snapshot.rowCount.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{snapshot.fileCount}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          {isDirty && (
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Save changes" onClick={() => saveDraft(snapshot)}>
+                              <FloppyDisk className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {!isActive && (
+                            <Button variant="outline" size="sm" className="h-7" onClick={() => onSwitch(snapshot.id)}>
+                              Open
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title="Delete snapshot"
+                            onClick={() => setPendingDelete(snapshot)}
+                          >
+                            <Trash className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={onNewSnapshot}>
+              <Plus className="w-4 h-4 mr-2" />
+              Upload New Snapshot
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete snapshot?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" and its {pendingDelete?.rowCount.toLocaleString()} repositories will be
+              removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
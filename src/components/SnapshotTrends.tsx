@@ -0,0 +1,350 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { LoadingState } from '@/components/LoadingComponents';
+import { NUMERICAL_COLUMNS } from '@/types/repository';
+import { DatasetSnapshot, loadDataset } from '@/lib/datasetStore';
+import { toTimestampMs } from '@/lib/dates';
+import {
+  SnapshotSummary,
+  TrendStatistic,
+  TrendPoint,
+  summarizeSnapshot,
+  getTrendSeries,
+  calculateGrowth,
+  projectThresholdCrossing
+} from '@/lib/trends';
+import { formatColumn } from '@/lib/format';
+
+interface SnapshotTrendsProps {
+  snapshots: DatasetSnapshot[];
+}
+
+const ALL_ORGS = '__all__';
+
+// Per-org growth table is capped; orgs are ordered by their latest value
+const ORG_LIMIT = 100;
+
+const STATISTIC_LABELS: Record<TrendStatistic, string> = {
+  total: 'Total',
+  median: 'Median',
+  p90: 'P90',
+  repoCount: 'Repository count'
+};
+
+const formatValue = (value: number) => (Math.round(value * 100) / 100).toLocaleString();
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate > 0 ? '+' : ''}${(rate * 100).toFixed(1)}%`);
+
+const describeProjection = (points: TrendPoint[], threshold: number | null) => {
+  if (threshold === null) return '—';
+  const projection = projectThresholdCrossing(points, threshold);
+  if (!projection) return '—';
+  if (projection.reached) return 'Reached';
+  return projection.date ?? 'Not on current trend';
+};
+
+// Summaries only change with a snapshot's contents; names and dates are applied when read
+const cacheKey = (snapshot: DatasetSnapshot) => `${snapshot.id}:${snapshot.rowCount}:${snapshot.fileCount}`;
+
+export function SnapshotTrends({ snapshots }: SnapshotTrendsProps) {
+  const [summaries, setSummaries] = useState<SnapshotSummary[]>([]);
+  const [loading, setLoading] = useState<{ loaded: number; total: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [column, setColumn] = useState('Repo_Size_mb');
+  const [statistic, setStatistic] = useState<TrendStatistic>('total');
+  const [org, setOrg] = useState(ALL_ORGS);
+  const [thresholdInput, setThresholdInput] = useState('');
+  const cacheRef = useRef(new Map<string, SnapshotSummary>());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Snapshots are summarized one at a time so only one dataset's rows are held in memory
+    const summarizeAll = async () => {
+      const pending = snapshots.filter(snapshot => !cacheRef.current.has(cacheKey(snapshot)));
+      setLoadError(null);
+      if (pending.length > 0) setLoading({ loaded: 0, total: pending.length });
+
+      try {
+        for (const [index, snapshot] of pending.entries()) {
+          const rows = await loadDataset(snapshot.id);
+          if (cancelled) return;
+          cacheRef.current.set(cacheKey(snapshot), summarizeSnapshot(snapshot, rows));
+          setLoading({ loaded: index + 1, total: pending.length });
+        }
+      } catch (err) {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load snapshots');
+      }
+      if (cancelled) return;
+
+      setSummaries(snapshots.flatMap(snapshot => {
+        const summary = cacheRef.current.get(cacheKey(snapshot));
+        return summary ? [{ ...summary, name: snapshot.name, date: snapshot.date }] : [];
+      }));
+      setLoading(null);
+    };
+
+    summarizeAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshots]);
+
+  const orgNames = useMemo(() => {
+    const names = new Set<string>();
+    summaries.forEach(summary => Object.keys(summary.orgs).forEach(name => names.add(name)));
+    return Array.from(names).sort();
+  }, [summaries]);
+
+  const threshold = thresholdInput.trim() === '' || isNaN(Number(thresholdInput)) ? null : Number(thresholdInput);
+  const scope = org === ALL_ORGS ? undefined : org;
+
+  const series = useMemo(
+    () => getTrendSeries(summaries, column, statistic, scope),
+    [summaries, column, statistic, scope]
+  );
+  const growth = useMemo(() => calculateGrowth(series), [series]);
+  const projection = useMemo(
+    () => (threshold === null ? null : projectThresholdCrossing(series, threshold)),
+    [series, threshold]
+  );
+
+  const chartData = useMemo(() => {
+    const points: Array<{ time: number; date: string; value?: number; projected?: number }> = series.map(point => ({
+      time: toTimestampMs(point.date),
+      date: point.date,
+      value: point.value
+    }));
+    // Dashed segment from the latest snapshot to the projected crossing
+    if (projection?.date && threshold !== null && points.length > 0) {
+      const last = points[points.length - 1];
+      last.projected = last.value;
+      points.push({ time: toTimestampMs(projection.date), date: projection.date, projected: threshold });
+    }
+    return points;
+  }, [series, projection, threshold]);
+
+  const orgTrends = useMemo(() => {
+    return orgNames
+      .map(name => {
+        const points = getTrendSeries(summaries, column, statistic, name);
+        return {
+          name,
+          first: points[0]?.value ?? 0,
+          latest: points[points.length - 1]?.value ?? 0,
+          growth: calculateGrowth(points),
+          crossing: describeProjection(points, threshold)
+        };
+      })
+      .sort((a, b) => b.latest - a.latest);
+  }, [orgNames, summaries, column, statistic, threshold]);
+
+  if (snapshots.length < 2) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <p className="text-muted-foreground">Trends need at least two dated snapshots</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading) {
+    return (
+      <LoadingState
+        message={`Summarizing snapshots (${loading.loaded} of ${loading.total})...`}
+        progress={(loading.loaded / loading.total) * 100}
+        showProgress
+      />
+    );
+  }
+
+  const metricLabel = statistic === 'repoCount'
+    ? STATISTIC_LABELS.repoCount
+    : `${STATISTIC_LABELS[statistic]} ${formatColumn(column)}`;
+
+  return (
+    <div className="space-y-6">
+      {loadError && (
+        <Card>
+          <CardContent className="py-4">
+            <p className="text-sm text-destructive">Some snapshots could not be loaded: {loadError}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trends Across Snapshots</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label>Metric</Label>
+              <Select value={column} onValueChange={setColumn} disabled={statistic === 'repoCount'}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NUMERICAL_COLUMNS.map(name => (
+                    <SelectItem key={name} value={name}>{formatColumn(name)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Statistic</Label>
+              <Select value={statistic} onValueChange={(value: TrendStatistic) => setStatistic(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATISTIC_LABELS) as TrendStatistic[]).map(key => (
+                    <SelectItem key={key} value={key}>{STATISTIC_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Organization</Label>
+              <Select value={org} onValueChange={setOrg}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ORGS}>All organizations</SelectItem>
+                  {orgNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="trend-threshold">Threshold</Label>
+              <Input
+                id="trend-threshold"
+                type="number"
+                placeholder="e.g. 100000"
+                value={thresholdInput}
+                onChange={(e) => setThresholdInput(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Latest</div>
+              <div className="text-lg font-semibold font-mono">{formatValue(series[series.length - 1]?.value ?? 0)}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Change per month</div>
+              <div className="text-lg font-semibold font-mono">{growth ? formatValue(growth.perMonth) : '—'}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Monthly growth rate</div>
+              <div className="text-lg font-semibold font-mono">{formatRate(growth?.monthlyRate ?? null)}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Threshold crossed</div>
+              <div className="text-lg font-semibold font-mono">{describeProjection(series, threshold)}</div>
+            </div>
+          </div>
+
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, bottom: 40, left: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="oklch(0.88 0.02 85)" />
+                <XAxis
+                  type="number"
+                  dataKey="time"
+                  domain={['dataMin', 'dataMax']}
+                  scale="time"
+                  fontSize={12}
+                  stroke="oklch(0.55 0.12 270)"
+                  tickFormatter={(time: number) => new Date(time).toISOString().slice(0, 10)}
+                  label={{ value: 'Inventory Date', position: 'insideBottom', offset: -10 }}
+                />
+                <YAxis
+                  fontSize={12}
+                  stroke="oklch(0.55 0.12 270)"
+                  tickFormatter={(value: number) => value.toLocaleString()}
+                  label={{ value: metricLabel, angle: -90, position: 'insideLeft' }}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (active && payload && payload.length) {
+                      const point = payload[0].payload;
+                      return (
+                        <div className="bg-background border border-border rounded-lg p-3 shadow-lg">
+                          <p className="font-medium">{point.date}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {point.value === undefined ? 'Projected' : metricLabel}: {formatValue(point.value ?? point.projected)}
+                          </p>
+                        </div>
+                      );
+                    }
+                    return null;
+                  }}
+                />
+                {threshold !== null && (
+                  <ReferenceLine y={threshold} stroke="oklch(0.70 0.15 45)" strokeDasharray="5 5" strokeWidth={2} />
+                )}
+                <Line type="monotone" dataKey="value" stroke="oklch(0.45 0.15 270)" strokeWidth={2} dot connectNulls={false} />
+                <Line type="linear" dataKey="projected" stroke="oklch(0.70 0.15 45)" strokeDasharray="5 5" dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          {projection?.date && (
+            <p className="text-xs text-muted-foreground text-center">
+              Linear projection from {series.length} snapshots reaches {formatValue(threshold ?? 0)} around {projection.date}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Growth by Organization</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="max-h-[32rem] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Organization</TableHead>
+                  <TableHead className="text-right">First</TableHead>
+                  <TableHead className="text-right">Latest</TableHead>
+                  <TableHead className="text-right">Change / Month</TableHead>
+                  <TableHead className="text-right">Monthly Growth</TableHead>
+                  <TableHead className="text-right">Threshold Crossed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orgTrends.slice(0, ORG_LIMIT).map(trend => (
+                  <TableRow key={trend.name}>
+                    <TableCell className="font-medium">{trend.name}</TableCell>
+                    <TableCell className="text-right font-mono">{formatValue(trend.first)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatValue(trend.latest)}</TableCell>
+                    <TableCell className="text-right font-mono">{trend.growth ? formatValue(trend.growth.perMonth) : '—'}</TableCell>
+                    <TableCell className="text-right font-mono">{formatRate(trend.growth?.monthlyRate ?? null)}</TableCell>
+                    <TableCell className="text-right font-mono">{trend.crossing}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {orgTrends.length > ORG_LIMIT && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing the {ORG_LIMIT} largest of {orgTrends.length.toLocaleString()} organizations
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
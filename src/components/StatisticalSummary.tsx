@@ -1,30 +1,85 @@
-import { useCallback } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { calculateStatistics } from '@/lib/analytics';
-import { RepositoryData, NUMERICAL_COLUMNS } from '@/types/repository';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CaretUp, CaretDown } from '@phosphor-icons/react';
+import { calculateStatistics, calculateGroupedStatistics } from '@/lib/analytics';
+import { getNumericColumns, getGroupByColumns } from '@/lib/columnTypes';
+import { formatColumn } from '@/lib/format';
+import { RepositoryData, ColumnInfo, GroupStatistics, NUMERICAL_COLUMNS } from '@/types/repository';
 import { useAsyncDataProcessing } from '@/hooks/useDataProcessing';
 import { LoadingState } from '@/components/LoadingComponents';
 
 interface StatisticalSummaryProps {
   data: RepositoryData[];
+  extraColumns?: ColumnInfo[];
 }
 
-export function StatisticalSummary({ data }: StatisticalSummaryProps) {
+type GroupSortKey = keyof GroupStatistics;
+
+const NO_GROUPING = 'none';
+
+const GROUP_BY_LABELS: Record<string, string> = {
+  Org_Name: 'Organization',
+  isFork: 'Fork status',
+  isArchived: 'Archived status'
+};
+
+const STAT_COLUMNS: { key: Exclude<GroupSortKey, 'group'>; label: string }[] = [
+  { key: 'count', label: 'Count' },
+  { key: 'mean', label: 'Mean' },
+  { key: 'std', label: 'Std' },
+  { key: 'min', label: 'Min' },
+  { key: 'p25', label: '25%' },
+  { key: 'p50', label: '50%' },
+  { key: 'p75', label: '75%' },
+  { key: 'max', label: 'Max' }
+];
+
+export function StatisticalSummary({ data, extraColumns = [] }: StatisticalSummaryProps) {
+  const [groupBy, setGroupBy] = useState(NO_GROUPING);
+  const [groupMetric, setGroupMetric] = useState(NUMERICAL_COLUMNS[0]);
+  const [groupSort, setGroupSort] = useState<{ key: GroupSortKey; descending: boolean }>({ key: 'count', descending: true });
+
+  const numericColumns = useMemo(() => getNumericColumns(extraColumns), [extraColumns]);
+  const groupByColumns = useMemo(() => getGroupByColumns(extraColumns), [extraColumns]);
+
+  const groupStats = useMemo(() => {
+    if (groupBy === NO_GROUPING) return [];
+    const { key, descending } = groupSort;
+    const direction = descending ? -1 : 1;
+    return calculateGroupedStatistics(data, groupBy, groupMetric).sort((a, b) =>
+      key === 'group' ? a.group.localeCompare(b.group) * direction : (a[key] - b[key]) * direction
+    );
+  }, [data, groupBy, groupMetric, groupSort]);
+
+  const toggleSort = (key: GroupSortKey) => {
+    setGroupSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key !== 'group' }));
+  };
+
+  const sortIndicator = (key: GroupSortKey) => {
+    if (groupSort.key !== key) return null;
+    return groupSort.descending
+      ? <CaretDown className="inline w-3 h-3 ml-1" />
+      : <CaretUp className="inline w-3 h-3 ml-1" />;
+  };
+
   const calculateAllStats = useCallback(async () => {
-    // Process statistics for all columns
-    const stats = NUMERICAL_COLUMNS.map(column => ({
-      column: column.replace(/_/g, ' ').replace(/([A-Z])/g, ' $1').trim(),
+    // Process statistics for all columns, including inferred numeric ones
+    const stats = getNumericColumns(extraColumns).map(column => ({
+      column: formatColumn(column),
+      isExtra: !NUMERICAL_COLUMNS.includes(column),
       ...calculateStatistics(data, column)
     }));
     
     return stats;
-  }, [data]);
+  }, [data, extraColumns]);
 
   const { processedData: stats, isLoading, error } = useAsyncDataProcessing(
     data,
     calculateAllStats,
-    []
+    [extraColumns]
   );
 
   const formatNumber = (num: number) => {
@@ -50,9 +105,73 @@ export function StatisticalSummary({ data }: StatisticalSummaryProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Statistical Summary</CardTitle>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-4">
+          <span>Statistical Summary</span>
+          <div className="flex items-center gap-2 text-sm font-normal">
+            <Select value={groupBy} onValueChange={setGroupBy}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_GROUPING}>No grouping</SelectItem>
+                {groupByColumns.map(column => (
+                  <SelectItem key={column} value={column}>
+                    By {GROUP_BY_LABELS[column] ?? column}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {groupBy !== NO_GROUPING && (
+              <Select value={groupMetric} onValueChange={setGroupMetric}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {numericColumns.map(column => (
+                    <SelectItem key={column} value={column}>{formatColumn(column)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </CardTitle>
       </CardHeader>
       <CardContent>
+        {groupBy !== NO_GROUPING ? (
+          <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold cursor-pointer select-none" onClick={() => toggleSort('group')}>
+                    {GROUP_BY_LABELS[groupBy] ?? groupBy}
+                    {sortIndicator('group')}
+                  </TableHead>
+                  {STAT_COLUMNS.map(stat => (
+                    <TableHead key={stat.key} className="text-right cursor-pointer select-none" onClick={() => toggleSort(stat.key)}>
+                      {stat.label}
+                      {sortIndicator(stat.key)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groupStats.map(stat => (
+                  <TableRow key={stat.group}>
+                    <TableCell className="font-medium">{stat.group}</TableCell>
+                    <TableCell className="text-right font-mono">{stat.count}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(stat.mean)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(stat.std)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(stat.min)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(stat.p25)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(stat.p50)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(stat.p75)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(stat.max)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
@@ -71,7 +190,10 @@ export function StatisticalSummary({ data }: StatisticalSummaryProps) {
             <TableBody>
               {stats.map((stat) => (
                 <TableRow key={stat.column}>
-                  <TableCell className="font-medium">{stat.column}</TableCell>
+                  <TableCell className="font-medium">
+                    {stat.column}
+                    {stat.isExtra && <Badge variant="outline" className="ml-2 text-xs">custom</Badge>}
+                  </TableCell>
                   <TableCell className="text-right font-mono">{stat.count}</TableCell>
                   <TableCell className="text-right font-mono">{formatNumber(stat.mean)}</TableCell>
                   <TableCell className="text-right font-mono">{formatNumber(stat.std)}</TableCell>
@@ -85,6 +207,24 @@ export function StatisticalSummary({ data }: StatisticalSummaryProps) {
             </TableBody>
           </Table>
         </div>
+        )}
+        {extraColumns.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="text-sm font-medium">Additional columns</div>
+            <div className="flex flex-wrap gap-2">
+              {extraColumns.map(column => (
+                <Badge key={column.name} variant="secondary" className="font-normal">
+                  {column.name}
+                  <span className="ml-1 text-muted-foreground">({column.type})</span>
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Numeric columns are included in the table above and in the distribution charts.
+              Categorical columns can be used for grouping.
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
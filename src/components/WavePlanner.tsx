@@ -0,0 +1,270 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { DownloadSimple, DotsSixVertical, PushPin } from '@phosphor-icons/react';
+import { MigrationScoreBadge } from '@/components/MigrationScoreBadge';
+import { RepositoryData } from '@/types/repository';
+import { ScoringModel, Wave, WaveCapacity, WavePlanSettings } from '@/types/migration';
+import { planWaves, wavePlanToRows, getRepoKey, getActivePins } from '@/lib/wavePlanner';
+import { toCSV, downloadFile } from '@/lib/export';
+import { formatSize } from '@/lib/format';
+
+interface WavePlannerProps {
+  data: RepositoryData[];
+  settings: WavePlanSettings;
+  scoringModel: ScoringModel;
+  onSettingsChange: (settings: WavePlanSettings) => void;
+}
+
+const WAVE_LIMIT = 60;
+const REPOS_PER_WAVE_LIMIT = 100;
+
+const NEW_WAVE = -1;
+
+const CAPACITY_FIELDS: { key: keyof WaveCapacity; label: string }[] = [
+  { key: 'maxSizeMb', label: 'Max size per wave (MB)' },
+  { key: 'maxRecords', label: 'Max records per wave' },
+  { key: 'maxRepos', label: 'Max repositories per wave' }
+];
+
+const usage = (value: number, limit: number) => (limit > 0 ? Math.min(100, (value / limit) * 100) : 0);
+
+export function WavePlanner({ data, settings, scoringModel, onSettingsChange }: WavePlannerProps) {
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const waves = useMemo(() => planWaves(data, settings), [data, settings]);
+  const activePins = useMemo(() => getActivePins(data, settings.pins), [data, settings.pins]);
+  const pinCount = activePins.length;
+  const overCapacityCount = waves.filter(wave => wave.overCapacity).length;
+
+  const setCapacity = (key: keyof WaveCapacity, text: string) => {
+    const value = Number(text);
+    onSettingsChange({
+      ...settings,
+      capacity: { ...settings.capacity, [key]: Number.isFinite(value) ? Math.max(0, value) : 0 }
+    });
+  };
+
+  const pinRepo = (repoKey: string, waveNumber: number) => {
+    onSettingsChange({ ...settings, pins: { ...settings.pins, [repoKey]: waveNumber } });
+  };
+
+  const unpinRepo = (repoKey: string) => {
+    const { [repoKey]: _removed, ...pins } = settings.pins;
+    onSettingsChange({ ...settings, pins });
+  };
+
+  // Pins for repositories outside the current data are left alone
+  const clearPins = () => {
+    const pins = { ...settings.pins };
+    activePins.forEach(key => delete pins[key]);
+    onSettingsChange({ ...settings, pins });
+  };
+
+  const handleDrop = (e: React.DragEvent, waveNumber: number) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const repoKey = e.dataTransfer.getData('text/plain');
+    if (repoKey) pinRepo(repoKey, waveNumber === NEW_WAVE ? waves.length + 1 : waveNumber);
+  };
+
+  const dropHandlers = (waveNumber: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(waveNumber);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => handleDrop(e, waveNumber)
+  });
+
+  const handleExport = () => {
+    downloadFile('migration-wave-plan.csv', toCSV(wavePlanToRows(waves, settings.pins)));
+  };
+
+  const renderUsage = (label: string, value: string, percent: number | null, over: boolean) => (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className={`font-mono ${over ? 'text-destructive' : ''}`}>{value}</span>
+      </div>
+      {percent !== null && <Progress value={percent} className="h-1.5" />}
+    </div>
+  );
+
+  const renderWave = (wave: Wave) => {
+    const { capacity } = settings;
+    return (
+      <Card
+        key={wave.number}
+        className={`transition-all ${dropTarget === wave.number ? 'ring-2 ring-accent' : ''} ${wave.overCapacity ? 'border-destructive' : ''}`}
+        {...dropHandlers(wave.number)}
+      >
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-base">
+            <span>Wave {wave.number}</span>
+            {wave.overCapacity && <Badge variant="destructive">Over capacity</Badge>}
+          </CardTitle>
+          <div className="space-y-2">
+            {renderUsage(
+              'Size',
+              capacity.maxSizeMb > 0 ? `${formatSize(wave.totals.sizeMb)} / ${formatSize(capacity.maxSizeMb)}` : formatSize(wave.totals.sizeMb),
+              capacity.maxSizeMb > 0 ? usage(wave.totals.sizeMb, capacity.maxSizeMb) : null,
+              capacity.maxSizeMb > 0 && wave.totals.sizeMb > capacity.maxSizeMb
+            )}
+            {renderUsage(
+              'Records',
+              `${wave.totals.records.toLocaleString()}${capacity.maxRecords > 0 ? ` / ${capacity.maxRecords.toLocaleString()}` : ''}`,
+              capacity.maxRecords > 0 ? usage(wave.totals.records, capacity.maxRecords) : null,
+              capacity.maxRecords > 0 && wave.totals.records > capacity.maxRecords
+            )}
+            {renderUsage(
+              'Repositories',
+              `${wave.totals.repos.toLocaleString()}${capacity.maxRepos > 0 ? ` / ${capacity.maxRepos.toLocaleString()}` : ''}`,
+              capacity.maxRepos > 0 ? usage(wave.totals.repos, capacity.maxRepos) : null,
+              capacity.maxRepos > 0 && wave.totals.repos > capacity.maxRepos
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {wave.repos.length === 0 && (
+              <p className="text-xs text-muted-foreground text-center py-4">Drop repositories here</p>
+            )}
+            {wave.repos.slice(0, REPOS_PER_WAVE_LIMIT).map((repo, index) => {
+              const repoKey = getRepoKey(repo);
+              const isPinned = settings.pins[repoKey] !== undefined;
+              return (
+                <div
+                  key={`${repoKey}/${index}`}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', repoKey)}
+                  className="flex items-center gap-2 px-2 py-1 text-sm border rounded cursor-grab bg-background"
+                >
+                  <DotsSixVertical className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <span className="truncate flex-1" title={`${repo.Org_Name}/${repo.Repo_Name}`}>
+                    {repo.Org_Name}/{repo.Repo_Name}
+                  </span>
+                  <MigrationScoreBadge repo={repo} model={scoringModel} />
+                  <span className="text-xs text-muted-foreground font-mono shrink-0">{formatSize(repo.Repo_Size_mb)}</span>
+                  {isPinned && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Unpin"
+                      onClick={() => unpinRepo(repoKey)}
+                    >
+                      <PushPin weight="fill" className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+            {wave.repos.length > REPOS_PER_WAVE_LIMIT && (
+              <p className="text-xs text-muted-foreground pt-1">
+                +{(wave.repos.length - REPOS_PER_WAVE_LIMIT).toLocaleString()} more in the CSV export
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Wave Planner</span>
+            <div className="flex items-center gap-2">
+              {pinCount > 0 && (
+                <Button variant="outline" size="sm" onClick={clearPins}>
+                  Clear {pinCount} pin{pinCount === 1 ? '' : 's'}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={data.length === 0}>
+                <DownloadSimple className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </div>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Repositories are packed into waves under the limits below; set a limit to 0 to ignore it.
+            Drag a repository to another wave to pin it there.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            {CAPACITY_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`capacity-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`capacity-${field.key}`}
+                  type="number"
+                  min={0}
+                  className="w-48"
+                  value={settings.capacity[field.key]}
+                  onChange={(e) => setCapacity(field.key, e.target.value)}
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="keep-orgs-together"
+                checked={settings.keepOrgsTogether}
+                onCheckedChange={(checked) => onSettingsChange({ ...settings, keepOrgsTogether: checked })}
+              />
+              <label htmlFor="keep-orgs-together" className="text-sm text-muted-foreground">
+                Keep organizations together
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Waves</div>
+              <div className="text-lg font-semibold font-mono">{waves.length.toLocaleString()}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Repositories</div>
+              <div className="text-lg font-semibold font-mono">{data.length.toLocaleString()}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Pinned</div>
+              <div className="text-lg font-semibold font-mono">{pinCount.toLocaleString()}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">Over capacity</div>
+              <div className={`text-lg font-semibold font-mono ${overCapacityCount > 0 ? 'text-destructive' : ''}`}>
+                {overCapacityCount.toLocaleString()}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {waves.slice(0, WAVE_LIMIT).map(renderWave)}
+        <Card
+          className={`border-dashed border-2 transition-all ${dropTarget === NEW_WAVE ? 'border-accent bg-accent/5' : ''}`}
+          {...dropHandlers(NEW_WAVE)}
+        >
+          <CardContent className="flex items-center justify-center h-full min-h-32 text-sm text-muted-foreground">
+            Drop here to start a new wave
+          </CardContent>
+        </Card>
+      </div>
+      {waves.length > WAVE_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          Showing {WAVE_LIMIT} of {waves.length.toLocaleString()} waves. Download the CSV for the full plan.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { RepositoryData, IngestReport } from '@/types/repository';
+import { MergeSettings, MergeSource } from '@/lib/merge';
+import {
+  DatasetSnapshot,
+  StoredFile,
+  StorageEstimate,
+  DEFAULT_DATASET_ID,
+  combineSources,
+  getSnapshot,
+  listFiles,
+  listSnapshots,
+  loadFileRows,
+  saveDataset,
+  splitBySource,
+  putSnapshot,
+  deleteSnapshot as deleteStoredSnapshot,
+  deleteFile,
+  estimateStorage
+} from '@/lib/datasetStore';
+
+export interface DatasetLoadProgress {
+  loadedRows: number;
+  totalRows: number;
+}
+
+export interface SnapshotDetails {
+  name: string;
+  date: string;
+}
+
+const ACTIVE_SNAPSHOT_KEY = 'active-snapshot';
+
+const toDateOnly = (iso: string) => iso.slice(0, 10);
+
+const describeSnapshot = (
+  id: string,
+  details: SnapshotDetails,
+  files: StoredFile[],
+  rowCount = files.reduce((sum, file) => sum + file.rowCount, 0),
+  merge?: MergeSettings
+): DatasetSnapshot => ({
+  id,
+  ...details,
+  createdAt: new Date().toISOString(),
+  rowCount,
+  fileCount: files.length,
+  merge
+});
+
+/**
+ * Default snapshot name: the file name for single-file uploads, otherwise the file count
+ */
+export function suggestSnapshotName(reports: IngestReport[]): string {
+  if (reports.length === 1) return reports[0].fileName.replace(/\.(csv|json|ndjson|jsonl)(\.gz)?$/i, '');
+  return `${reports.length} files`;
+}
+
+/**
+ * Bring data saved by earlier versions into the snapshot library: the single IndexedDB
+ * dataset becomes a snapshot, and a key-value blob is moved into IndexedDB first
+ */
+const migrateLegacyDataset = async (): Promise<DatasetSnapshot[]> => {
+  let files = await listFiles(DEFAULT_DATASET_ID);
+
+  const kv = window.spark?.kv;
+  if (files.length === 0 && kv) {
+    const legacyData = await kv.get<RepositoryData[]>('repository-data');
+    if (legacyData && legacyData.length > 0) {
+      const legacyReports = await kv.get<IngestReport[]>('ingest-reports');
+      files = await saveDataset(DEFAULT_DATASET_ID, splitBySource(legacyData), legacyReports ?? []);
+      await Promise.all([kv.delete('repository-data'), kv.delete('ingest-reports')]);
+    }
+  }
+  if (files.length === 0) return [];
+
+  const uploadedAt = files[0].uploadedAt;
+  const snapshot = describeSnapshot(DEFAULT_DATASET_ID, { name: 'Imported dataset', date: toDateOnly(uploadedAt) }, files);
+  await putSnapshot(snapshot);
+  return [snapshot];
+};
+
+// Keeps the snapshot library in IndexedDB and the active snapshot's rows in memory.
+// The unmerged rows of each file are kept as well, so a dropped file can be merged out.
+export function useDatasetStore() {
+  const [snapshots, setSnapshots] = useState<DatasetSnapshot[]>([]);
+  const [activeSnapshotId, setActiveSnapshotId] = useState<string | null>(null);
+  const [files, setFiles] = useState<StoredFile[]>([]);
+  const [data, setData] = useState<RepositoryData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<DatasetLoadProgress | null>(null);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  // Only the most recent load may update state when the user switches snapshots quickly
+  const loadTokenRef = useRef(0);
+  const sourcesRef = useRef<MergeSource[]>([]);
+  const mergeRef = useRef<MergeSettings | undefined>(undefined);
+  // Files dropped while their snapshot is still being read
+  const droppedRef = useRef(new Set<string>());
+
+  const refreshStorage = useCallback(() => {
+    estimateStorage().then(setStorage).catch(() => setStorage(null));
+  }, []);
+
+  const fail = useCallback((err: unknown, fallback: string) => {
+    setError(err instanceof Error ? err : new Error(fallback));
+  }, []);
+
+  const loadSnapshot = useCallback(async (snapshotId: string | null) => {
+    const token = ++loadTokenRef.current;
+    setActiveSnapshotId(snapshotId);
+    window.spark?.kv.set(ACTIVE_SNAPSHOT_KEY, snapshotId);
+    sourcesRef.current = [];
+    droppedRef.current = new Set();
+
+    if (!snapshotId) {
+      setFiles([]);
+      setData([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [storedFiles, snapshot] = await Promise.all([listFiles(snapshotId), getSnapshot(snapshotId)]);
+      if (token !== loadTokenRef.current) return;
+      setFiles(storedFiles);
+      setData([]);
+      mergeRef.current = snapshot?.merge;
+
+      const totalRows = storedFiles.reduce((sum, file) => sum + file.rowCount, 0);
+      let loadedRows = 0;
+      setLoadProgress({ loadedRows, totalRows });
+
+      // Files are read one after another; the dashboard opens with the first and the rest are merged in as they arrive
+      for (const file of storedFiles) {
+        const rows = await loadFileRows(file, (fileRows) => {
+          if (token === loadTokenRef.current) setLoadProgress({ loadedRows: loadedRows + fileRows, totalRows });
+        });
+        if (token !== loadTokenRef.current) return;
+        loadedRows += rows.length;
+        if (droppedRef.current.has(file.fileName)) continue;
+
+        sourcesRef.current = [...sourcesRef.current, { fileName: file.fileName, data: rows }];
+        setData(combineSources(sourcesRef.current, mergeRef.current));
+        setIsLoading(false);
+      }
+    } catch (err) {
+      if (token === loadTokenRef.current) fail(err, 'Failed to load snapshot');
+    } finally {
+      if (token === loadTokenRef.current) {
+        setIsLoading(false);
+        setLoadProgress(null);
+      }
+    }
+  }, [fail]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const hydrate = async () => {
+      try {
+        let stored = await listSnapshots();
+        if (stored.length === 0) {
+          stored = await migrateLegacyDataset();
+        }
+        const savedActiveId = await window.spark?.kv.get<string | null>(ACTIVE_SNAPSHOT_KEY);
+        if (cancelled) return;
+
+        setSnapshots(stored);
+        const active = stored.find(snapshot => snapshot.id === savedActiveId) ?? stored[0];
+        await loadSnapshot(active?.id ?? null);
+      } catch (err) {
+        if (!cancelled) fail(err, 'Failed to load stored data');
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+          refreshStorage();
+        }
+      }
+    };
+
+    hydrate();
+    return () => {
+      cancelled = true;
+    };
+  }, [loadSnapshot, fail, refreshStorage]);
+
+  const createSnapshot = useCallback(async (
+    sources: MergeSource[],
+    reports: IngestReport[],
+    merge: MergeSettings,
+    details: SnapshotDetails
+  ) => {
+    setError(null);
+    const id = crypto.randomUUID();
+    ++loadTokenRef.current;
+    setActiveSnapshotId(id);
+    sourcesRef.current = sources;
+    mergeRef.current = merge;
+    droppedRef.current = new Set();
+    const rows = combineSources(sources, merge);
+    setData(rows);
+    window.spark?.kv.set(ACTIVE_SNAPSHOT_KEY, id);
+
+    try {
+      const storedFiles = await saveDataset(id, sources, reports);
+      const snapshot = describeSnapshot(id, details, storedFiles, rows.length, merge);
+      await putSnapshot(snapshot);
+      setFiles(storedFiles);
+      setSnapshots(await listSnapshots());
+    } catch (err) {
+      fail(err, 'Failed to save snapshot');
+    }
+    refreshStorage();
+  }, [fail, refreshStorage]);
+
+  const updateSnapshot = useCallback(async (snapshotId: string, details: SnapshotDetails) => {
+    const snapshot = snapshots.find(s => s.id === snapshotId);
+    if (!snapshot) return;
+    setError(null);
+    try {
+      await putSnapshot({ ...snapshot, ...details });
+      setSnapshots(await listSnapshots());
+    } catch (err) {
+      fail(err, 'Failed to update snapshot');
+    }
+  }, [snapshots, fail]);
+
+  const removeSnapshot = useCallback(async (snapshotId: string) => {
+    setError(null);
+    try {
+      await deleteStoredSnapshot(snapshotId);
+      const remaining = await listSnapshots();
+      setSnapshots(remaining);
+      if (snapshotId === activeSnapshotId) {
+        await loadSnapshot(remaining[0]?.id ?? null);
+      }
+    } catch (err) {
+      fail(err, 'Failed to delete snapshot');
+    }
+    refreshStorage();
+  }, [activeSnapshotId, loadSnapshot, fail, refreshStorage]);
+
+  const dropFile = useCallback(async (fileName: string) => {
+    if (!activeSnapshotId) return;
+    setError(null);
+    try {
+      await deleteFile(activeSnapshotId, fileName);
+      const remainingFiles = files.filter(file => file.fileName !== fileName);
+      setFiles(remainingFiles);
+
+      // Repositories the dropped file shared with other files come back from those files
+      droppedRef.current.add(fileName);
+      sourcesRef.current = sourcesRef.current.filter(source => source.fileName !== fileName);
+      const rows = combineSources(sourcesRef.current, mergeRef.current);
+      setData(rows);
+
+      const snapshot = snapshots.find(s => s.id === activeSnapshotId);
+      if (snapshot) {
+        await putSnapshot({ ...snapshot, rowCount: rows.length, fileCount: remainingFiles.length });
+        setSnapshots(await listSnapshots());
+      }
+    } catch (err) {
+      fail(err, 'Failed to remove file');
+    }
+    refreshStorage();
+  }, [activeSnapshotId, files, snapshots, fail, refreshStorage]);
+
+  const reports = useMemo(
+    () => files.flatMap(file => (file.report ? [file.report] : [])),
+    [files]
+  );
+
+  const activeSnapshot = useMemo(
+    () => snapshots.find(snapshot => snapshot.id === activeSnapshotId) ?? null,
+    [snapshots, activeSnapshotId]
+  );
+
+  return {
+    snapshots,
+    activeSnapshot,
+    data,
+    files,
+    reports,
+    isLoading,
+    loadProgress,
+    storage,
+    error,
+    switchSnapshot: loadSnapshot,
+    createSnapshot,
+    updateSnapshot,
+    removeSnapshot,
+    dropFile
+  };
+}
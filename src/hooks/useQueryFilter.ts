@@ -0,0 +1,65 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { RepositoryData, ColumnInfo } from '@/types/repository';
+import { parseQuery, compileQuery } from '@/lib/query';
+import { useWebWorker } from '@/hooks/useWebWorker';
+
+// Above this many rows the query runs in the worker instead of the main thread
+const WORKER_THRESHOLD = 5000;
+
+// Applies a text query to already filtered rows; invalid queries leave the rows unfiltered
+export function useQueryFilter(data: RepositoryData[], query: string, columns: ColumnInfo[]) {
+  const { processData } = useWebWorker();
+  const [workerResult, setWorkerResult] = useState<{ source: RepositoryData[]; query: string; rows: RepositoryData[] } | null>(null);
+  const [isFiltering, setIsFiltering] = useState(false);
+  // Only the latest request may update state when the query changes while the worker is busy
+  const requestRef = useRef(0);
+
+  const parsed = useMemo(() => parseQuery(query, columns), [query, columns]);
+  const runInWorker = parsed.ast !== null && data.length > WORKER_THRESHOLD;
+
+  const syncRows = useMemo(() => {
+    if (!parsed.ast || runInWorker) return null;
+    const predicate = compileQuery(parsed.ast);
+    return data.filter(predicate);
+  }, [data, parsed, runInWorker]);
+
+  useEffect(() => {
+    if (!runInWorker) {
+      ++requestRef.current;
+      setIsFiltering(false);
+      return;
+    }
+
+    const request = ++requestRef.current;
+    setIsFiltering(true);
+
+    const run = async () => {
+      let rows: RepositoryData[];
+      try {
+        const indices = await processData<number[]>('FILTER_QUERY', data, { query, columns });
+        rows = indices.map(index => data[index]);
+      } catch {
+        // Fallback to main thread if worker fails
+        rows = parsed.ast ? data.filter(compileQuery(parsed.ast)) : data;
+      }
+      if (request !== requestRef.current) return;
+      setWorkerResult({ source: data, query, rows });
+      setIsFiltering(false);
+    };
+
+    run();
+  }, [data, query, columns, parsed, runInWorker, processData]);
+
+  const rows = useMemo(() => {
+    if (!parsed.ast) return data;
+    if (syncRows) return syncRows;
+    // Keep showing the unfiltered rows until the worker answers for the current input
+    return workerResult && workerResult.source === data && workerResult.query === query ? workerResult.rows : data;
+  }, [data, query, parsed, syncRows, workerResult]);
+
+  return {
+    data: rows,
+    error: parsed.error,
+    isFiltering
+  };
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useRef } from 'react';
+import { DashboardUrlState, decodeUrlState } from '@/lib/urlState';
+import { ChartSettings } from '@/types/views';
+
+// Restores dashboard state from the URL hash once the data is ready, then keeps the hash in sync
+export function useUrlState(
+  encodedState: string,
+  defaults: ChartSettings,
+  columns: string[],
+  isReady: boolean,
+  onRestore: (state: DashboardUrlState) => void
+) {
+  // The hash is only written after the restored state has rendered, so it can't be overwritten first
+  const [isRestored, setIsRestored] = useState(false);
+  const latestRef = useRef({ defaults, columns, onRestore });
+  latestRef.current = { defaults, columns, onRestore };
+
+  useEffect(() => {
+    if (!isReady || isRestored) return;
+    if (window.location.hash.length > 1) {
+      onRestore(decodeUrlState(window.location.hash, defaults, columns));
+    }
+    setIsRestored(true);
+  }, [isReady, isRestored, defaults, columns, onRestore]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const hash = encodedState ? `#${encodedState}` : '';
+    if (hash !== window.location.hash) {
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`);
+    }
+  }, [encodedState, isRestored]);
+
+  // Links pasted into an open tab only change the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      const { defaults, columns, onRestore } = latestRef.current;
+      onRestore(decodeUrlState(window.location.hash, defaults, columns));
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+}
@@ -1,4 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { ParseResult } from '@/types/repository';
+import { ColumnMapping } from '@/types/columnMapping';
+import { parseInputStream, StreamProgress } from '@/lib/ingestStream';
+import { UploadInput } from '@/lib/archive';
 
 interface WorkerMessage {
   type: string;
@@ -12,16 +16,23 @@ interface WorkerResponse {
   error?: string;
 }
 
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
 export function useWebWorker() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const workerRef = useRef<Worker | null>(null);
-  const promiseRef = useRef<{
-    resolve: (value: any) => void;
-    reject: (reason: any) => void;
-  } | null>(null);
+  // Requests are keyed by job id so a slow reply can never settle a newer request
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextJobIdRef = useRef(1);
 
   useEffect(() => {
+    const pending = pendingRef.current;
+
     // Create worker if supported
     if (typeof Worker !== 'undefined') {
       try {
@@ -30,26 +41,27 @@ export function useWebWorker() {
           { type: 'module' }
         );
 
-        workerRef.current.onmessage = (e: MessageEvent<WorkerResponse>) => {
-          const { success, result, error } = e.data;
-          
-          if (promiseRef.current) {
-            if (success) {
-              promiseRef.current.resolve(result);
-            } else {
-              promiseRef.current.reject(new Error(error));
-            }
-            promiseRef.current = null;
+        workerRef.current.onmessage = (e: MessageEvent<WorkerResponse & { jobId?: number }>) => {
+          const { jobId, success, result, error } = e.data;
+          const request = jobId === undefined ? undefined : pending.get(jobId);
+          if (!request) return;
+
+          pending.delete(jobId!);
+          clearTimeout(request.timeout);
+          if (success) {
+            request.resolve(result);
+          } else {
+            request.reject(new Error(error));
           }
-          
-          setIsProcessing(false);
+          setIsProcessing(pending.size > 0);
         };
 
         workerRef.current.onerror = (error) => {
-          if (promiseRef.current) {
-            promiseRef.current.reject(error);
-            promiseRef.current = null;
-          }
+          pending.forEach(request => {
+            clearTimeout(request.timeout);
+            request.reject(error);
+          });
+          pending.clear();
           setError(new Error('Worker error'));
           setIsProcessing(false);
         };
@@ -85,29 +97,28 @@ export function useWebWorker() {
 
     setIsProcessing(true);
 
+    const jobId = nextJobIdRef.current++;
+    const pending = pendingRef.current;
+
     return new Promise((resolve, reject) => {
-      promiseRef.current = { resolve, reject };
-      
-      const message: WorkerMessage = { type, data, config };
+      // Timeout after 30 seconds
+      const timeout = setTimeout(() => {
+        if (pending.delete(jobId)) {
+          reject(new Error('Worker timeout'));
+          setIsProcessing(pending.size > 0);
+        }
+      }, 30000);
+      pending.set(jobId, { resolve, reject, timeout });
+
+      const message: WorkerMessage = { type, data, config: { ...config, jobId } };
       try {
         workerRef.current!.postMessage(message);
       } catch (err) {
-        if (promiseRef.current) {
-          promiseRef.current.reject(err);
-          promiseRef.current = null;
-        }
-        setIsProcessing(false);
-        return;
+        pending.delete(jobId);
+        clearTimeout(timeout);
+        reject(err);
+        setIsProcessing(pending.size > 0);
       }
-      
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        if (promiseRef.current) {
-          promiseRef.current.reject(new Error('Worker timeout'));
-          promiseRef.current = null;
-          setIsProcessing(false);
-        }
-      }, 30000);
     });
   }, []);
 
@@ -150,6 +161,128 @@ export function useWorkerDownsampling() {
   return { downsampleData, isProcessing, error };
 }
 
+interface StreamJob {
+  resolve: (result: ParseResult) => void;
+  reject: (reason: any) => void;
+  onProgress?: (progress: StreamProgress) => void;
+}
+
+interface StreamWorkerResponse extends WorkerResponse {
+  type?: 'PROGRESS';
+  jobId: number;
+  progress?: StreamProgress;
+}
+
+export interface StreamParseRequest {
+  uploadedAt?: string;
+  mapping?: ColumnMapping;
+  referenceDate?: string;
+}
+
+// Streams uploaded files through a dedicated worker so large uploads never block the UI
+export function useStreamingFileParser() {
+  const workerRef = useRef<Worker | null>(null);
+  const jobsRef = useRef(new Map<number, StreamJob>());
+  const fallbackControllersRef = useRef(new Map<number, AbortController>());
+  const nextJobIdRef = useRef(1);
+
+  useEffect(() => {
+    const jobs = jobsRef.current;
+
+    if (typeof Worker !== 'undefined') {
+      try {
+        workerRef.current = new Worker(
+          new URL('../lib/dataWorker.js', import.meta.url),
+          { type: 'module' }
+        );
+
+        workerRef.current.onmessage = (e: MessageEvent<StreamWorkerResponse>) => {
+          const { type, jobId, progress, success, result, error } = e.data;
+          const job = jobs.get(jobId);
+          if (!job) return;
+
+          if (type === 'PROGRESS') {
+            if (progress) job.onProgress?.(progress);
+            return;
+          }
+
+          jobs.delete(jobId);
+          if (success) {
+            job.resolve(result);
+          } else {
+            job.reject(new Error(error));
+          }
+        };
+
+        workerRef.current.onerror = () => {
+          jobs.forEach(job => job.reject(new Error('Worker error')));
+          jobs.clear();
+        };
+      } catch (err) {
+        console.warn('Web Worker not supported, parsing on the main thread');
+        workerRef.current = null;
+      }
+    }
+
+    return () => {
+      if (workerRef.current) {
+        try {
+          workerRef.current.terminate();
+        } catch (err) {
+          console.warn('Error terminating worker:', err);
+        }
+      }
+    };
+  }, []);
+
+  const parseFile = useCallback((
+    input: UploadInput,
+    onProgress?: (progress: StreamProgress) => void,
+    request: StreamParseRequest = {}
+  ): Promise<ParseResult> => {
+    const jobId = nextJobIdRef.current++;
+
+    // Fall back to streaming on the main thread when no worker is available
+    if (!workerRef.current) {
+      const controller = new AbortController();
+      fallbackControllersRef.current.set(jobId, controller);
+      return parseInputStream(input.blob, {
+        ...request,
+        fileName: input.name,
+        format: input.format,
+        compression: input.compression,
+        signal: controller.signal,
+        onProgress
+      }).finally(() => {
+        fallbackControllersRef.current.delete(jobId);
+      });
+    }
+
+    return new Promise<ParseResult>((resolve, reject) => {
+      jobsRef.current.set(jobId, { resolve, reject, onProgress });
+      try {
+        workerRef.current!.postMessage({
+          type: 'PARSE_FILE_STREAM',
+          data: input.blob,
+          config: { ...request, jobId, fileName: input.name, format: input.format, compression: input.compression }
+        });
+      } catch (err) {
+        jobsRef.current.delete(jobId);
+        reject(err);
+      }
+    });
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    jobsRef.current.forEach((_, jobId) => {
+      workerRef.current?.postMessage({ type: 'CANCEL_JOB', config: { jobId } });
+    });
+    fallbackControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  return { parseFile, cancelAll };
+}
+
 // Fallback functions for when Web Worker is not available
 function calculateStatisticsSync(data: any[], column: string) {
   const values = data
@@ -1,25 +1,89 @@
-import { RepositoryData, StatisticalSummary, PercentileRepo, REQUIRED_COLUMNS, NUMERICAL_COLUMNS } from '@/types/repository';
+import { RepositoryData, StatisticalSummary, GroupStatistics, PercentileRepo, ParseResult, REQUIRED_COLUMNS, NUMERICAL_COLUMNS, DATE_COLUMNS, BOOLEAN_COLUMNS } from '@/types/repository';
+import { ColumnMapping } from '@/types/columnMapping';
+import { CSVRecord, tokenizeCSV } from '@/lib/csv';
+import { createIngestReportBuilder } from '@/lib/ingestReport';
+import { createColumnMapper } from '@/lib/columnMapping';
+import { coerceExtraColumns, getExtraColumnNames } from '@/lib/columnTypes';
+import { parseDate, toTimestampMs, daysBetween } from '@/lib/dates';
 
-export function parseCSV(csvText: string): RepositoryData[] {
-  const lines = csvText.trim().split('\n');
-  if (lines.length < 2) {
-    throw new Error('CSV must contain at least a header row and one data row');
+const RECORD_COUNT_FIELDS = [
+  'Collaborator_Count', 'Protected_Branch_Count', 'PR_Review_Count',
+  'Milestone_Count', 'Issue_Count', 'PR_Count', 'PR_Review_Comment_Count',
+  'Commit_Comment_Count', 'Issue_Comment_Count', 'Issue_Event_Count',
+  'Release_Count', 'Project_Count', 'Branch_Count', 'Tag_Count', 'Discussion_Count'
+];
+
+export interface RowParserOptions {
+  fileName?: string;
+  uploadedAt?: string;
+  mapping?: ColumnMapping;
+  referenceDate?: string; // ISO date used by age-based column transforms
+}
+
+export interface RowParser {
+  addRecord: (record: CSVRecord) => void;
+  getRowCounts: () => { accepted: number; skipped: number };
+  getResult: () => ParseResult;
+}
+
+const parseNumber = (value: string): { value: number; coerced: boolean } => {
+  const parsed = Number(value);
+  if (value !== '' && Number.isFinite(parsed)) {
+    return { value: parsed, coerced: false };
   }
+  return { value: parseFloat(value) || 0, coerced: true };
+};
+
+const parseBoolean = (value: string): { value: boolean; coerced: boolean } => {
+  const normalized = value.toLowerCase();
+  if (normalized === 'true' || normalized === 'false') {
+    return { value: normalized === 'true', coerced: false };
+  }
+  return { value: false, coerced: true };
+};
+
+/**
+ * Create a parser that converts tokenized CSV records into typed rows while
+ * recording skipped rows, coerced cells, invalid dates and duplicate keys
+ */
+export function createRowParser(
+  sourceHeaders: string[],
+  { fileName = 'upload.csv', uploadedAt = new Date().toISOString(), mapping, referenceDate }: RowParserOptions = {}
+): RowParser {
+  const mapper = mapping
+    ? createColumnMapper(sourceHeaders, mapping, referenceDate ? new Date(referenceDate) : undefined)
+    : null;
+  const headers = mapper ? mapper.headers : sourceHeaders;
 
-  const headers = lines[0].split(',').map(h => h.trim());
-  
   // Validate required columns
   const missingColumns = REQUIRED_COLUMNS.filter(col => !headers.includes(col));
   if (missingColumns.length > 0) {
     throw new Error(`Missing required columns: ${missingColumns.join(', ')}`);
   }
 
+  const extraColumns = getExtraColumnNames(headers);
   const data: RepositoryData[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length !== headers.length) continue; // Skip malformed rows
-    
+  const report = createIngestReportBuilder(fileName);
+
+  const addRecord = (record: CSVRecord) => {
+    const { line } = record;
+
+    if (record.error) {
+      report.skipRow({ line, reason: record.error });
+      return;
+    }
+
+    const sourceValues = record.fields.map(v => v.trim());
+    if (sourceValues.length !== sourceHeaders.length) {
+      report.skipRow({
+        line,
+        reason: `Expected ${sourceHeaders.length} fields but found ${sourceValues.length}`
+      });
+      return;
+    }
+
+    const values = mapper ? mapper.mapValues(sourceValues) : sourceValues;
+
     try {
       const row: any = {};
       headers.forEach((header, index) => {
@@ -27,9 +91,22 @@ export function parseCSV(csvText: string): RepositoryData[] {
         
         // Parse different data types
         if (NUMERICAL_COLUMNS.includes(header)) {
-          row[header] = parseFloat(value) || 0;
-        } else if (header === 'Is_Empty' || header === 'isFork' || header === 'isArchived' || header === 'Has_Wiki') {
-          row[header] = value.toLowerCase() === 'true';
+          const parsed = parseNumber(value);
+          if (parsed.coerced) report.coerceCell({ line, column: header, value, coercedTo: parsed.value });
+          row[header] = parsed.value;
+        } else if (BOOLEAN_COLUMNS.includes(header)) {
+          const parsed = parseBoolean(value);
+          if (parsed.coerced) report.coerceCell({ line, column: header, value, coercedTo: parsed.value });
+          row[header] = parsed.value;
+        } else if (DATE_COLUMNS.includes(header) && value !== '') {
+          const parsed = parseDate(value);
+          if (!parsed) {
+            report.invalidDate({ line, column: header, value });
+            row[header] = value;
+          } else {
+            if (parsed.ambiguous) report.ambiguousDate({ line, column: header, value, interpretedAs: parsed.iso });
+            row[header] = parsed.iso;
+          }
         } else {
           row[header] = value;
         }
@@ -37,22 +114,57 @@ export function parseCSV(csvText: string): RepositoryData[] {
       
       // Calculate Record_Count as sum of all count fields if not present
       if (!row.Record_Count) {
-        row.Record_Count = [
-          'Collaborator_Count', 'Protected_Branch_Count', 'PR_Review_Count',
-          'Milestone_Count', 'Issue_Count', 'PR_Count', 'PR_Review_Comment_Count',
-          'Commit_Comment_Count', 'Issue_Comment_Count', 'Issue_Event_Count',
-          'Release_Count', 'Project_Count', 'Branch_Count', 'Tag_Count', 'Discussion_Count'
-        ].reduce((sum, field) => sum + (row[field] || 0), 0);
+        row.Record_Count = RECORD_COUNT_FIELDS.reduce((sum, field) => sum + (row[field] || 0), 0);
       }
       
+      row.Source_File = fileName;
+      row.Uploaded_At = uploadedAt;
+      row.Source_Line = line;
+
+      report.trackKey(`${row.Org_Name}/${row.Repo_Name}`, line);
+      report.acceptRow();
       data.push(row as RepositoryData);
     } catch (error) {
-      // Skip invalid rows
-      continue;
+      report.skipRow({
+        line,
+        reason: error instanceof Error ? error.message : 'Failed to parse row'
+      });
+    }
+  };
+
+  return {
+    addRecord,
+    getRowCounts: report.getRowCounts,
+    getResult: () => {
+      // Extra columns can only be typed once every value has been seen
+      coerceExtraColumns(data, extraColumns);
+      return { data, report: report.build() };
     }
+  };
+}
+
+/**
+ * Read the header names from the first CSV record
+ */
+export function getCSVHeaders(record: CSVRecord): string[] {
+  if (record.error) {
+    throw new Error(`Invalid header row: ${record.error}`);
+  }
+  return record.fields.map(h => h.trim());
+}
+
+export function parseCSV(csvText: string, options?: RowParserOptions): ParseResult {
+  const records = tokenizeCSV(csvText);
+  if (records.length < 2) {
+    throw new Error('CSV must contain at least a header row and one data row');
+  }
+
+  const parser = createRowParser(getCSVHeaders(records[0]), options);
+  for (let i = 1; i < records.length; i++) {
+    parser.addRecord(records[i]);
   }
   
-  return data;
+  return parser.getResult();
 }
 
 export function calculateStatistics(data: RepositoryData[], column: string): StatisticalSummary {
@@ -86,6 +198,38 @@ export function calculateStatistics(data: RepositoryData[], column: string): Sta
   };
 }
 
+// Label for rows without a value in the group-by column
+export const BLANK_GROUP = '(blank)';
+
+/**
+ * Group label of a row: booleans read as Yes/No, missing values share one blank group
+ */
+export function getGroupKey(row: RepositoryData, column: string): string {
+  const value = (row as any)[column];
+  if (value === null || value === undefined || value === '') return BLANK_GROUP;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/**
+ * The same statistics as calculateStatistics, computed separately for each value of a grouping column
+ */
+export function calculateGroupedStatistics(data: RepositoryData[], groupBy: string, column: string): GroupStatistics[] {
+  const groups = new Map<string, RepositoryData[]>();
+  data.forEach(row => {
+    const key = getGroupKey(row, groupBy);
+    const rows = groups.get(key);
+    if (rows) {
+      rows.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+
+  return Array.from(groups, ([group, rows]) => ({ group, ...calculateStatistics(rows, column) }))
+    .sort((a, b) => b.count - a.count || a.group.localeCompare(b.group));
+}
+
 export function getPercentileRepos(data: RepositoryData[], percentiles: number[]): PercentileRepo[] {
   const sortedData = [...data].sort((a, b) => a.Repo_Size_mb - b.Repo_Size_mb);
   const count = sortedData.length;
@@ -101,11 +245,41 @@ export function getPercentileRepos(data: RepositoryData[], percentiles: number[]
   });
 }
 
-export function calculateAge(createdDate: string): number {
-  const created = new Date(createdDate);
-  const now = new Date();
-  const diffTime = Math.abs(now.getTime() - created.getTime());
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24)); // Days
+export function getSourceFiles(data: RepositoryData[]): string[] {
+  const files = new Set<string>();
+  data.forEach(row => {
+    if (row.Source_File) files.add(row.Source_File);
+  });
+  return Array.from(files).sort();
+}
+
+/**
+ * Age in days of a repository at the given "as of" date; negative when created after it, NaN when either date is invalid
+ */
+export function calculateAge(createdDate: string, asOf: string): number {
+  const created = toTimestampMs(createdDate);
+  const reference = toTimestampMs(asOf);
+  if (isNaN(created) || isNaN(reference)) return NaN;
+  return daysBetween(created, reference);
+}
+
+/**
+ * Fixed reference date for ages so they don't drift with the wall clock: the most
+ * recent upload time, falling back to the latest Last_Update for data without provenance
+ */
+export function getAsOfDate(data: RepositoryData[]): string {
+  let latest = -Infinity;
+  data.forEach(row => {
+    const time = toTimestampMs(row.Uploaded_At);
+    if (time > latest) latest = time;
+  });
+  if (latest === -Infinity) {
+    data.forEach(row => {
+      const time = toTimestampMs(row.Last_Update);
+      if (time > latest) latest = time;
+    });
+  }
+  return latest === -Infinity ? new Date().toISOString() : new Date(latest).toISOString();
 }
 
 export function getColorForValue(value: number, min: number, max: number): string {
@@ -0,0 +1,214 @@
+// Gzip and zip support for uploads
+// Archives are never unpacked up front: zip members are referenced as slices of the
+// original file and decompressed while they are streamed into the parser.
+
+import { detectInputFormat, InputFormat } from '@/lib/jsonLoader';
+
+export type Compression = 'gzip' | 'deflate-raw';
+
+export interface UploadInput {
+  name: string;
+  blob: Blob;
+  format: InputFormat;
+  compression?: Compression;
+}
+
+export interface RejectedUpload {
+  name: string;
+  error: string;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const MAX_EOCD_SEARCH = 0xffff + 22;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// General purpose bit flag 0 marks an encrypted entry
+const FLAG_ENCRYPTED = 0x1;
+
+const UNSUPPORTED_FILE_ERROR = 'Unsupported file type; expected CSV, JSON or NDJSON, optionally as .gz or .zip';
+
+export function isZipFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.zip');
+}
+
+/**
+ * Describe a single (possibly gzipped) data file, or null when it is not supported
+ */
+export function describeInput(name: string, blob: Blob): UploadInput | null {
+  const isGzip = name.toLowerCase().endsWith('.gz');
+  const format = detectInputFormat(isGzip ? name.slice(0, -3) : name);
+  if (!format) return null;
+  return { name, blob, format, compression: isGzip ? 'gzip' : undefined };
+}
+
+/**
+ * Wrap a blob's byte stream with the decompressor it needs
+ */
+export function openInputStream(blob: Blob, compression?: Compression): ReadableStream<Uint8Array> {
+  const stream = blob.stream();
+  return compression ? stream.pipeThrough(new DecompressionStream(compression)) : stream;
+}
+
+interface ZipEntry {
+  name: string;
+  encrypted: boolean;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const findEndOfCentralDirectory = async (file: Blob) => {
+  const start = Math.max(0, file.size - MAX_EOCD_SEARCH);
+  const view = await readView(file, start, file.size);
+
+  for (let i = view.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      return {
+        entryCount: view.getUint16(i + 10, true),
+        directorySize: view.getUint32(i + 12, true),
+        directoryOffset: view.getUint32(i + 16, true)
+      };
+    }
+  }
+  throw new Error('Not a valid zip archive');
+};
+
+const readCentralDirectory = async (file: Blob): Promise<ZipEntry[]> => {
+  const { entryCount, directorySize, directoryOffset } = await findEndOfCentralDirectory(file);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const view = await readView(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)
+    );
+
+    entries.push({ name, encrypted: (flags & FLAG_ENCRYPTED) !== 0, method, compressedSize, localHeaderOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const isIgnoredEntry = (name: string) =>
+  name.endsWith('/') || name.startsWith('__MACOSX/') || name.split('/').pop()!.startsWith('.');
+
+/**
+ * List the data files inside a zip archive as lazily decompressed inputs; other members are rejected
+ */
+export async function expandZip(file: File): Promise<{ inputs: UploadInput[]; rejected: RejectedUpload[] }> {
+  const inputs: UploadInput[] = [];
+  const rejected: RejectedUpload[] = [];
+
+  for (const entry of await readCentralDirectory(file)) {
+    if (isIgnoredEntry(entry.name)) continue;
+
+    const name = `${file.name}/${entry.name}`;
+    const format = detectInputFormat(entry.name);
+    if (!format) {
+      // Members are decompressed once while streaming, so a gzip inside the zip can't be read
+      const isNestedGzip = entry.name.toLowerCase().endsWith('.gz') && detectInputFormat(entry.name.slice(0, -3));
+      rejected.push({
+        name,
+        error: isNestedGzip ? 'Compressed files inside a zip are not supported; add the uncompressed file instead' : UNSUPPORTED_FILE_ERROR
+      });
+      continue;
+    }
+
+    if (entry.encrypted) {
+      rejected.push({ name, error: 'Encrypted zip entries are not supported' });
+      continue;
+    }
+
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+      rejected.push({ name, error: `Unsupported zip compression method ${entry.method}` });
+      continue;
+    }
+
+    // The local header repeats the name and may carry a different extra field length
+    const local = await readView(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      rejected.push({ name, error: 'Corrupt zip entry header' });
+      continue;
+    }
+    const dataStart = entry.localHeaderOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+
+    inputs.push({
+      name,
+      blob: file.slice(dataStart, dataStart + entry.compressedSize),
+      format,
+      compression: entry.method === METHOD_DEFLATE ? 'deflate-raw' : undefined
+    });
+  }
+
+  return { inputs, rejected };
+}
+
+// Same-named files in one upload get their upload position appended, because the name
+// becomes each row's Source_File and the key the file is stored and reported under
+const withUniqueNames = (inputs: UploadInput[]): UploadInput[] => {
+  const used = new Set<string>();
+  return inputs.map((input, index) => {
+    let name = input.name;
+    if (used.has(name)) name = `${input.name} (${index + 1})`;
+    for (let n = 2; used.has(name); n++) name = `${input.name} (${index + 1}.${n})`;
+    used.add(name);
+    return name === input.name ? input : { ...input, name };
+  });
+};
+
+/**
+ * Turn the files picked by the user into parseable inputs, expanding zip archives
+ */
+export async function expandUploads(files: File[]): Promise<{ inputs: UploadInput[]; rejected: RejectedUpload[] }> {
+  const inputs: UploadInput[] = [];
+  const rejected: RejectedUpload[] = [];
+
+  for (const file of files) {
+    if (isZipFile(file.name)) {
+      try {
+        const expanded = await expandZip(file);
+        if (expanded.inputs.length === 0 && expanded.rejected.length === 0) {
+          rejected.push({ name: file.name, error: 'Archive contains no CSV, JSON or NDJSON files' });
+        }
+        inputs.push(...expanded.inputs);
+        rejected.push(...expanded.rejected);
+      } catch (err) {
+        rejected.push({ name: file.name, error: err instanceof Error ? err.message : 'Failed to read archive' });
+      }
+      continue;
+    }
+
+    const input = describeInput(file.name, file);
+    if (input) {
+      inputs.push(input);
+    } else {
+      rejected.push({ name: file.name, error: UNSUPPORTED_FILE_ERROR });
+    }
+  }
+
+  return { inputs: withUniqueNames(inputs), rejected };
+}
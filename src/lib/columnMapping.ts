@@ -0,0 +1,171 @@
+// Maps non-canonical CSV headers onto the REQUIRED_COLUMNS schema
+
+import { REQUIRED_COLUMNS, NUMERICAL_COLUMNS, BOOLEAN_COLUMNS, DATE_COLUMNS } from '@/types/repository';
+import { ColumnMapping, ColumnMappingEntry, ColumnTransform, MappingProfile } from '@/types/columnMapping';
+import { DAY_MS } from '@/lib/dates';
+
+// Alternative names seen in third-party exports, in normalized form
+const COLUMN_SYNONYMS: Record<string, string[]> = {
+  Org_Name: ['org', 'organization', 'organisation', 'owner', 'orgname', 'namespace'],
+  Repo_Name: ['name', 'repo', 'repository', 'reponame', 'repositoryname'],
+  Repo_Size_mb: ['size', 'reposize', 'sizemb', 'sizekb', 'sizegb', 'sizebytes', 'reposizekb', 'diskusage'],
+  Collaborator_Count: ['collaborators', 'contributors', 'contributorcount'],
+  Issue_Count: ['issues', 'openissues', 'issuecount', 'openissuescount'],
+  PR_Count: ['prs', 'pullrequests', 'pullrequestcount'],
+  Branch_Count: ['branches'],
+  Tag_Count: ['tags'],
+  Release_Count: ['releases'],
+  Created: ['createdat', 'creationdate', 'agedays', 'age'],
+  Last_Push: ['pushedat', 'lastpushedat', 'lastpushdate'],
+  Last_Update: ['updatedat', 'lastupdatedat', 'lastupdated'],
+  isFork: ['fork', 'forked'],
+  isArchived: ['archived'],
+  Is_Empty: ['empty'],
+  Has_Wiki: ['wiki', 'haswikienabled'],
+  Full_URL: ['url', 'htmlurl', 'repourl'],
+  Migration_Issue: ['migrationissues', 'issue', 'notes']
+};
+
+/**
+ * Reduce a header to lowercase alphanumerics so case and separator variants match
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess the unit conversion implied by a source header name
+ */
+export function suggestTransform(target: string, source: string): ColumnTransform {
+  const normalized = normalizeHeader(source);
+
+  if (DATE_COLUMNS.includes(target) && /(age|days)/.test(normalized) && !/date|at$/.test(normalized)) {
+    return 'age_days_to_date';
+  }
+  if (NUMERICAL_COLUMNS.includes(target)) {
+    if (normalized.endsWith('kb')) return 'kb_to_mb';
+    if (normalized.endsWith('gb')) return 'gb_to_mb';
+    if (normalized.endsWith('bytes')) return 'bytes_to_mb';
+  }
+  return 'none';
+}
+
+/**
+ * Suggest a source header for every canonical column
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<string>();
+  const mapping: ColumnMapping = {};
+
+  const claim = (target: string, source: string) => {
+    used.add(source);
+    mapping[target] = { source, transform: suggestTransform(target, source) };
+  };
+
+  // Exact matches first, then case/underscore variants, then synonyms
+  REQUIRED_COLUMNS.forEach(target => {
+    if (headers.includes(target)) claim(target, target);
+  });
+
+  REQUIRED_COLUMNS.forEach(target => {
+    if (mapping[target]) return;
+    const match = headers.find(h => !used.has(h) && normalizeHeader(h) === normalizeHeader(target));
+    if (match) claim(target, match);
+  });
+
+  REQUIRED_COLUMNS.forEach(target => {
+    if (mapping[target]) return;
+    const synonyms = COLUMN_SYNONYMS[target] ?? [];
+    const match = headers.find(h => !used.has(h) && synonyms.includes(normalizeHeader(h)));
+    if (match) claim(target, match);
+  });
+
+  REQUIRED_COLUMNS.forEach(target => {
+    if (!mapping[target]) mapping[target] = { source: null, transform: 'none' };
+  });
+
+  return mapping;
+}
+
+/**
+ * Whether headers already satisfy the schema without any mapping
+ */
+export function hasCanonicalHeaders(headers: string[]): boolean {
+  return REQUIRED_COLUMNS.every(col => headers.includes(col));
+}
+
+/**
+ * Whether every source column referenced by a profile exists in the headers
+ */
+export function profileMatchesHeaders(profile: MappingProfile, headers: string[]): boolean {
+  const sources = Object.values(profile.mapping)
+    .map(entry => entry.source)
+    .filter((source): source is string => source !== null);
+  return sources.length > 0 && sources.every(source => headers.includes(source));
+}
+
+const defaultValueFor = (target: string): string => {
+  if (NUMERICAL_COLUMNS.includes(target)) return '0';
+  if (BOOLEAN_COLUMNS.includes(target)) return 'false';
+  return '';
+};
+
+const applyTransform = (value: string, transform: ColumnTransform, referenceDate: Date): string => {
+  if (transform === 'none' || value === '') return value;
+
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) return value; // Left for the row parser to report
+
+  switch (transform) {
+    case 'kb_to_mb':
+      return String(numeric / 1024);
+    case 'gb_to_mb':
+      return String(numeric * 1024);
+    case 'bytes_to_mb':
+      return String(numeric / (1024 * 1024));
+    case 'age_days_to_date':
+      return new Date(referenceDate.getTime() - numeric * DAY_MS).toISOString();
+    default:
+      return value;
+  }
+};
+
+export interface ColumnMapper {
+  headers: string[];
+  mapValues: (values: string[]) => string[];
+}
+
+/**
+ * Build a converter from source rows to canonical rows. Source columns that are
+ * not used by the mapping are carried through under their own names.
+ */
+export function createColumnMapper(
+  sourceHeaders: string[],
+  mapping: ColumnMapping,
+  referenceDate: Date = new Date()
+): ColumnMapper {
+  const mappedSources = new Set(
+    Object.values(mapping).map(entry => entry.source).filter(Boolean)
+  );
+  const extraHeaders = sourceHeaders.filter(h => !mappedSources.has(h) && !REQUIRED_COLUMNS.includes(h));
+
+  const plan = REQUIRED_COLUMNS.map(target => {
+    const entry: ColumnMappingEntry = mapping[target] ?? { source: null, transform: 'none' };
+    return {
+      target,
+      index: entry.source === null ? -1 : sourceHeaders.indexOf(entry.source),
+      transform: entry.transform
+    };
+  });
+  const extraIndexes = extraHeaders.map(h => sourceHeaders.indexOf(h));
+
+  return {
+    headers: [...REQUIRED_COLUMNS, ...extraHeaders],
+    mapValues: (values) => [
+      ...plan.map(({ target, index, transform }) =>
+        index === -1 ? defaultValueFor(target) : applyTransform(values[index], transform, referenceDate)
+      ),
+      ...extraIndexes.map(index => values[index])
+    ]
+  };
+}
@@ -0,0 +1,111 @@
+// Type inference for columns that are not part of the standard inventory format
+// Extra columns are coerced once at upload; the UI reads their types back from the values.
+
+import { RepositoryData, ColumnInfo, ColumnType, REQUIRED_COLUMNS, NUMERICAL_COLUMNS, PROVENANCE_COLUMNS } from '@/types/repository';
+import { parseDate } from '@/lib/dates';
+
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+
+const isNumeric = (value: string) => Number.isFinite(Number(value));
+const isBoolean = (value: string) => value.toLowerCase() in BOOLEAN_VALUES;
+const isDate = (value: string) => parseDate(value) !== null;
+
+/**
+ * Columns in a header row that are neither standard nor provenance columns
+ */
+export function getExtraColumnNames(headers: string[]): string[] {
+  return headers.filter(header =>
+    !REQUIRED_COLUMNS.includes(header) && !PROVENANCE_COLUMNS.includes(header)
+  );
+}
+
+/**
+ * Infer a column type from raw strings or from values that were already coerced.
+ * Empty values are ignored; a column with no values is categorical.
+ */
+export function inferColumnType(values: unknown[]): ColumnType {
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+  if (present.length === 0) return 'categorical';
+
+  if (present.every(value => typeof value === 'number' || (typeof value === 'string' && isNumeric(value)))) {
+    return 'numeric';
+  }
+  if (present.every(value => typeof value === 'boolean' || (typeof value === 'string' && isBoolean(value)))) {
+    return 'boolean';
+  }
+  if (present.every(value => typeof value === 'string' && isDate(value))) {
+    return 'date';
+  }
+  return 'categorical';
+}
+
+/**
+ * Convert a raw cell to the inferred type; empty numeric and boolean cells become null
+ * and dates are normalized to UTC ISO strings
+ */
+export function coerceColumnValue(value: string, type: ColumnType): string | number | boolean | null {
+  switch (type) {
+    case 'numeric':
+      return value === '' ? null : Number(value);
+    case 'boolean':
+      return value === '' ? null : BOOLEAN_VALUES[value.toLowerCase()];
+    case 'date':
+      return parseDate(value)?.iso ?? value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Infer the type of every extra column from the parsed rows and coerce the values in place
+ */
+export function coerceExtraColumns(data: RepositoryData[], columns: string[]): ColumnInfo[] {
+  return columns.map(name => {
+    const type = inferColumnType(data.map(row => (row as any)[name]));
+    data.forEach(row => {
+      (row as any)[name] = coerceColumnValue((row as any)[name] ?? '', type);
+    });
+    return { name, type };
+  });
+}
+
+/**
+ * Describe the extra columns present in a (possibly merged) dataset
+ */
+export function describeExtraColumns(data: RepositoryData[]): ColumnInfo[] {
+  const names = new Set<string>();
+  data.forEach(row => Object.keys(row).forEach(key => names.add(key)));
+
+  return getExtraColumnNames(Array.from(names)).map(name => ({
+    name,
+    type: inferColumnType(data.map(row => (row as any)[name]))
+  }));
+}
+
+/**
+ * Standard numeric columns followed by inferred numeric extra columns
+ */
+export function getNumericColumns(extraColumns: ColumnInfo[]): string[] {
+  return [
+    ...NUMERICAL_COLUMNS,
+    ...extraColumns.filter(column => column.type === 'numeric').map(column => column.name)
+  ];
+}
+
+/**
+ * Columns suitable for grouping: the organization plus inferred categorical extra columns
+ */
+export function getCategoricalColumns(extraColumns: ColumnInfo[]): string[] {
+  return [
+    'Org_Name',
+    ...extraColumns.filter(column => column.type === 'categorical').map(column => column.name)
+  ];
+}
+
+/**
+ * Columns statistics can be grouped by: categorical columns plus the fork and archived flags
+ */
+export function getGroupByColumns(extraColumns: ColumnInfo[]): string[] {
+  const [orgColumn, ...extraCategorical] = getCategoricalColumns(extraColumns);
+  return [orgColumn, 'isFork', 'isArchived', ...extraCategorical];
+}
@@ -0,0 +1,144 @@
+// RFC 4180 CSV tokenizer
+// Input can be pushed in arbitrary chunks, so the same tokenizer serves both
+// whole-file parsing and streaming ingestion.
+
+export interface CSVRecord {
+  fields: string[];
+  line: number; // 1-based line on which the record starts
+  error?: string;
+}
+
+export interface CSVTokenizer {
+  push: (chunk: string) => CSVRecord[];
+  flush: () => CSVRecord[];
+}
+
+/**
+ * Create a stateful tokenizer that handles quoted fields, escaped double quotes,
+ * CRLF/CR/LF line endings, a leading byte order mark and multi-line cells
+ */
+export function createCSVTokenizer(): CSVTokenizer {
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  let afterClosingQuote = false;
+  let fieldWasQuoted = false;
+  let pendingCR = false;
+  let isFirstChunk = true;
+  let line = 1;
+  let recordLine = 1;
+  let recordError: string | undefined;
+
+  const setError = (message: string) => {
+    if (!recordError) recordError = message;
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    afterClosingQuote = false;
+    fieldWasQuoted = false;
+  };
+
+  const endRecord = (records: CSVRecord[]) => {
+    const isBlankLine = fields.length === 0 && field.trim() === '' && !fieldWasQuoted;
+    endField();
+    if (!isBlankLine) {
+      records.push({ fields, line: recordLine, error: recordError });
+    }
+    fields = [];
+    recordError = undefined;
+    line++;
+    recordLine = line;
+  };
+
+  const push = (chunk: string): CSVRecord[] => {
+    const records: CSVRecord[] = [];
+    let start = 0;
+
+    if (isFirstChunk && chunk.length > 0) {
+      if (chunk.charCodeAt(0) === 0xfeff) start = 1;
+      isFirstChunk = false;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // A CR already ended the record, so swallow the LF of a CRLF pair
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          afterClosingQuote = true;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          if (afterClosingQuote) {
+            // Escaped quote ("") inside a quoted field
+            field += '"';
+            inQuotes = true;
+            afterClosingQuote = false;
+          } else if (!fieldWasQuoted && field.trim() === '') {
+            field = '';
+            inQuotes = true;
+            fieldWasQuoted = true;
+          } else {
+            setError('Unexpected quote in unquoted field');
+            field += char;
+          }
+          break;
+        case ',':
+          endField();
+          break;
+        case '\r':
+          endRecord(records);
+          pendingCR = true;
+          break;
+        case '\n':
+          endRecord(records);
+          break;
+        default:
+          if (afterClosingQuote) {
+            // Whitespace padding after a closing quote is tolerated
+            if (char.trim() !== '') setError('Unexpected character after closing quote');
+            else break;
+          }
+          field += char;
+      }
+    }
+
+    return records;
+  };
+
+  const flush = (): CSVRecord[] => {
+    const records: CSVRecord[] = [];
+    if (inQuotes) {
+      setError('Unterminated quoted field');
+      inQuotes = false;
+    }
+    if (fields.length > 0 || field !== '' || fieldWasQuoted) {
+      endRecord(records);
+    }
+    return records;
+  };
+
+  return { push, flush };
+}
+
+/**
+ * Tokenize a complete CSV document
+ */
+export function tokenizeCSV(text: string): CSVRecord[] {
+  const tokenizer = createCSVTokenizer();
+  return [...tokenizer.push(text), ...tokenizer.flush()];
+}
@@ -1,9 +1,28 @@
 // Web Worker for heavy data processing tasks
 // This runs in a separate thread to avoid blocking the main UI
 
+import { parseInputStream } from './ingestStream';
+import { calculateAge } from './analytics';
+import { matchQuery } from './query';
+
+// Abort controllers for streaming jobs that are still running, keyed by job id
+const activeJobs = new Map();
+
 self.onmessage = function(e) {
   const { type, data, config } = e.data;
 
+  // Streaming jobs report progress and answer asynchronously
+  if (type === 'PARSE_FILE_STREAM') {
+    parseFileStream(data, config);
+    return;
+  }
+
+  if (type === 'CANCEL_JOB') {
+    const controller = activeJobs.get(config.jobId);
+    if (controller) controller.abort();
+    return;
+  }
+
   try {
     let result;
 
@@ -27,17 +46,48 @@ self.onmessage = function(e) {
       case 'DEDUPLICATE_POINTS':
         result = deduplicatePoints(data, config.tolerance);
         break;
+
+      case 'FILTER_QUERY':
+        // Only indices go back to the main thread, which already holds the rows
+        result = matchQuery(data, config.query, config.columns);
+        break;
       
       default:
         throw new Error(`Unknown processing type: ${type}`);
     }
 
-    self.postMessage({ success: true, result });
+    // Echo the job id so the caller can pair replies with requests when several are in flight
+    self.postMessage({ jobId: config?.jobId, success: true, result });
   } catch (error) {
-    self.postMessage({ success: false, error: error.message });
+    self.postMessage({ jobId: config?.jobId, success: false, error: error.message });
   }
 };
 
+async function parseFileStream(blob, { jobId, fileName, format, compression, uploadedAt, mapping, referenceDate }) {
+  const controller = new AbortController();
+  activeJobs.set(jobId, controller);
+
+  try {
+    const result = await parseInputStream(blob, {
+      format,
+      compression,
+      fileName,
+      uploadedAt,
+      mapping,
+      referenceDate,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        self.postMessage({ type: 'PROGRESS', jobId, progress });
+      }
+    });
+    self.postMessage({ jobId, success: true, result });
+  } catch (error) {
+    self.postMessage({ jobId, success: false, error: error.message });
+  } finally {
+    activeJobs.delete(jobId);
+  }
+}
+
 function calculateStatistics(data, column) {
   const values = data
     .map(row => row[column])
@@ -211,7 +261,7 @@ function applyScaling(values, method) {
 }
 
 function processScatterData(data, config) {
-  const { optimizeData, maxPoints, deduplicationTolerance } = config;
+  const { optimizeData, maxPoints, deduplicationTolerance, asOf } = config;
   
   // Calculate color range
   const recordCounts = data.map(r => r.Record_Count);
@@ -222,7 +272,7 @@ function processScatterData(data, config) {
   let processedData = data
     .filter(repo => repo.Created && repo.Repo_Size_mb >= 0)
     .map(repo => {
-      const age = calculateAge(repo.Created);
+      const age = calculateAge(repo.Created, asOf);
       return {
         x: age,
         y: repo.Repo_Size_mb,
@@ -256,12 +306,6 @@ function processScatterData(data, config) {
   return processedData;
 }
 
-function calculateAge(dateString) {
-  const createdDate = new Date(dateString);
-  const now = new Date();
-  return Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24));
-}
-
 function getColorForValue(value, min, max) {
   if (max === min) return '#3b82f6';
   
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { RepositoryData } from '@/types/repository';
+import { MergeSource } from '@/lib/merge';
+import { combineSources } from '@/lib/datasetStore';
+
+const repo = (name: string, file: string, lastUpdate: string) =>
+  ({ Org_Name: 'org', Repo_Name: name, Last_Update: lastUpdate, Source_File: file }) as RepositoryData;
+
+describe('combineSources', () => {
+  const sources: MergeSource[] = [
+    { fileName: 'a.csv', data: [repo('shared', 'a.csv', '2024-02-01'), repo('only-a', 'a.csv', '2024-01-01')] },
+    { fileName: 'b.csv', data: [repo('shared', 'b.csv', '2024-01-01')] }
+  ];
+  const merge = { policy: 'latest' as const, strategy: 'name' as const };
+
+  it('merges files the way the upload was merged', () => {
+    const rows = combineSources(sources, merge);
+    expect(rows.map(r => `${r.Repo_Name}@${r.Source_File}`).sort()).toEqual(['only-a@a.csv', 'shared@a.csv']);
+  });
+
+  it('keeps a repository another file still contains after its winning file is dropped', () => {
+    const rows = combineSources(sources.filter(source => source.fileName !== 'a.csv'), merge);
+    expect(rows.map(r => `${r.Repo_Name}@${r.Source_File}`)).toEqual(['shared@b.csv']);
+  });
+});
@@ -0,0 +1,306 @@
+// IndexedDB persistence for uploaded datasets
+// Every upload is kept as a named snapshot. Each file's rows are stored as parsed, before the
+// upload's files were merged, in fixed-size chunks that are read one at a time. Dropping a file
+// then only means re-merging the files that remain.
+
+import { RepositoryData, IngestReport } from '@/types/repository';
+import { MergeSettings, MergeSource, mergeSources } from '@/lib/merge';
+
+const DB_NAME = 'repository-analysis';
+const DB_VERSION = 2;
+const SNAPSHOTS_STORE = 'snapshots';
+const FILES_STORE = 'files';
+const CHUNKS_STORE = 'chunks';
+
+export const CHUNK_SIZE = 5000;
+
+// Id of the single dataset stored before snapshots existed
+export const DEFAULT_DATASET_ID = 'current';
+
+// Rows uploaded before provenance was recorded have no Source_File
+export const UNKNOWN_SOURCE = 'Unknown source';
+
+export interface DatasetSnapshot {
+  id: string;
+  name: string;
+  date: string; // Inventory date (YYYY-MM-DD), editable separately from createdAt
+  createdAt: string;
+  rowCount: number;
+  fileCount: number;
+  // Missing for snapshots saved before files were stored unmerged; their rows are already unique
+  merge?: MergeSettings;
+}
+
+export interface StoredFile {
+  datasetId: string;
+  fileName: string;
+  uploadedAt: string;
+  // Rows in the file itself, before merging with the other files of the upload
+  rowCount: number;
+  chunkCount: number;
+  approxBytes: number;
+  report?: IngestReport;
+}
+
+interface StoredChunk {
+  datasetId: string;
+  fileName: string;
+  index: number;
+  rows: RepositoryData[];
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+/**
+ * Open (and on first use create) the dataset database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const files = db.createObjectStore(FILES_STORE, { keyPath: ['datasetId', 'fileName'] });
+          files.createIndex('datasetId', 'datasetId');
+          const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: ['datasetId', 'fileName', 'index'] });
+          chunks.createIndex('datasetId', 'datasetId');
+          chunks.createIndex('file', ['datasetId', 'fileName']);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Split rows into one source per Source_File, for data that was kept as a single list
+ */
+export function splitBySource(data: RepositoryData[]): MergeSource[] {
+  const groups = new Map<string, RepositoryData[]>();
+  data.forEach(row => {
+    const fileName = row.Source_File ?? UNKNOWN_SOURCE;
+    const rows = groups.get(fileName);
+    if (rows) {
+      rows.push(row);
+    } else {
+      groups.set(fileName, [row]);
+    }
+  });
+  return Array.from(groups, ([fileName, rows]) => ({ fileName, data: rows }));
+}
+
+/**
+ * Combine the files of a snapshot the way its upload was merged
+ */
+export function combineSources(sources: MergeSource[], merge: MergeSettings | undefined): RepositoryData[] {
+  if (merge) return mergeSources(sources, merge.policy, merge.strategy).data;
+  const data: RepositoryData[] = [];
+  sources.forEach(source => {
+    for (const row of source.data) data.push(row);
+  });
+  return data;
+}
+
+const deleteByIndex = (store: IDBObjectStore, indexName: string, key: IDBValidKey) =>
+  requestToPromise(store.index(indexName).getAllKeys(IDBKeyRange.only(key))).then(keys => {
+    keys.forEach(primaryKey => store.delete(primaryKey));
+  });
+
+/**
+ * List the files stored for a dataset, in upload order
+ */
+export async function listFiles(datasetId: string): Promise<StoredFile[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(FILES_STORE, 'readonly');
+  const files = await requestToPromise<StoredFile[]>(
+    transaction.objectStore(FILES_STORE).index('datasetId').getAll(IDBKeyRange.only(datasetId))
+  );
+  return files.sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt) || a.fileName.localeCompare(b.fileName));
+}
+
+/**
+ * Replace a dataset with new files; each file gets its own manifest entry and chunks.
+ * Source names are unique within an upload (see expandUploads), so they identify the file.
+ */
+export async function saveDataset(
+  datasetId: string,
+  sources: MergeSource[],
+  reports: IngestReport[]
+): Promise<StoredFile[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction([FILES_STORE, CHUNKS_STORE], 'readwrite');
+  const filesStore = transaction.objectStore(FILES_STORE);
+  const chunksStore = transaction.objectStore(CHUNKS_STORE);
+  const done = transactionDone(transaction);
+
+  await deleteByIndex(filesStore, 'datasetId', datasetId);
+  await deleteByIndex(chunksStore, 'datasetId', datasetId);
+
+  const files: StoredFile[] = [];
+  sources.forEach(({ fileName, data: rows }) => {
+    if (rows.length === 0) return;
+    let approxBytes = 0;
+    let chunkCount = 0;
+
+    for (let start = 0; start < rows.length; start += CHUNK_SIZE) {
+      const chunk: StoredChunk = { datasetId, fileName, index: chunkCount++, rows: rows.slice(start, start + CHUNK_SIZE) };
+      approxBytes += JSON.stringify(chunk.rows).length;
+      chunksStore.put(chunk);
+    }
+
+    const file: StoredFile = {
+      datasetId,
+      fileName,
+      uploadedAt: rows[0].Uploaded_At ?? new Date().toISOString(),
+      rowCount: rows.length,
+      chunkCount,
+      approxBytes,
+      report: reports.find(report => report.fileName === fileName)
+    };
+    filesStore.put(file);
+    files.push(file);
+  });
+
+  await done;
+  return files;
+}
+
+/**
+ * Read one stored chunk of a file
+ */
+export async function readChunk(file: StoredFile, index: number): Promise<RepositoryData[]> {
+  const db = await openDatabase();
+  // One short transaction per chunk keeps the UI responsive between reads
+  const transaction = db.transaction(CHUNKS_STORE, 'readonly');
+  const chunk = await requestToPromise<StoredChunk | undefined>(
+    transaction.objectStore(CHUNKS_STORE).get([file.datasetId, file.fileName, index])
+  );
+  return chunk?.rows ?? [];
+}
+
+/**
+ * Read one file's rows, fetching its chunks only as they are needed
+ */
+export async function loadFileRows(
+  file: StoredFile,
+  onChunk?: (loadedRows: number) => void
+): Promise<RepositoryData[]> {
+  const rows: RepositoryData[] = [];
+  for (let index = 0; index < file.chunkCount; index++) {
+    for (const row of await readChunk(file, index)) rows.push(row);
+    onChunk?.(rows.length);
+  }
+  return rows;
+}
+
+/**
+ * Remove one source file and its rows from a dataset
+ */
+export async function deleteFile(datasetId: string, fileName: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([FILES_STORE, CHUNKS_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+
+  transaction.objectStore(FILES_STORE).delete([datasetId, fileName]);
+  await deleteByIndex(transaction.objectStore(CHUNKS_STORE), 'file', [datasetId, fileName]);
+
+  await done;
+}
+
+/**
+ * Read a snapshot's metadata
+ */
+export async function getSnapshot(datasetId: string): Promise<DatasetSnapshot | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  return requestToPromise<DatasetSnapshot | undefined>(transaction.objectStore(SNAPSHOTS_STORE).get(datasetId));
+}
+
+/**
+ * Read every file of a dataset and merge them as the upload was merged
+ */
+export async function loadDataset(datasetId: string): Promise<RepositoryData[]> {
+  const [files, snapshot] = await Promise.all([listFiles(datasetId), getSnapshot(datasetId)]);
+  const sources: MergeSource[] = [];
+  for (const file of files) {
+    sources.push({ fileName: file.fileName, data: await loadFileRows(file) });
+  }
+  return combineSources(sources, snapshot?.merge);
+}
+
+/**
+ * List saved snapshots, newest inventory date first
+ */
+export async function listSnapshots(): Promise<DatasetSnapshot[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const snapshots = await requestToPromise<DatasetSnapshot[]>(transaction.objectStore(SNAPSHOTS_STORE).getAll());
+  return snapshots.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Create or update a snapshot's metadata
+ */
+export async function putSnapshot(snapshot: DatasetSnapshot): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(SNAPSHOTS_STORE).put(snapshot);
+  await done;
+}
+
+/**
+ * Remove a snapshot together with all of its files and rows
+ */
+export async function deleteSnapshot(datasetId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SNAPSHOTS_STORE, FILES_STORE, CHUNKS_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+
+  transaction.objectStore(SNAPSHOTS_STORE).delete(datasetId);
+  await deleteByIndex(transaction.objectStore(FILES_STORE), 'datasetId', datasetId);
+  await deleteByIndex(transaction.objectStore(CHUNKS_STORE), 'datasetId', datasetId);
+
+  await done;
+}
+
+/**
+ * Browser storage usage for this origin, when the Storage API is available
+ */
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
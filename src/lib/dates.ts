@@ -0,0 +1,129 @@
+// Date normalization for inventory exports
+// Accepts ISO 8601, US (MM/DD/YYYY), EU (DD.MM.YYYY, DD/MM/YYYY) and epoch timestamps,
+// and normalizes every value to a UTC ISO string. Values without a zone are read as UTC.
+
+export interface ParsedDate {
+  iso: string;
+  // Day and month could be swapped (e.g. 03/04/2024); the month-first reading was used
+  ambiguous: boolean;
+}
+
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const NUMERIC_PATTERN = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i;
+const EPOCH_PATTERN = /^\d{9,10}$|^\d{12,13}$/;
+const MONTH_NAME_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b/i;
+const ZONE_SUFFIX_PATTERN = /(GMT|UTC|Z|[+-]\d{2}:?\d{2})$/i;
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+  offsetMinutes?: number;
+}
+
+const parseOffset = (zone: string | undefined): number => {
+  if (!zone || zone.toUpperCase() === 'Z') return 0;
+  const sign = zone.startsWith('-') ? -1 : 1;
+  const digits = zone.slice(1).replace(':', '');
+  return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2)));
+};
+
+/**
+ * Build a UTC timestamp from calendar parts, rejecting out-of-range values such as 02/30
+ */
+const toTimestamp = ({ year, month, day, hour = 0, minute = 0, second = 0, millisecond = 0, offsetMinutes = 0 }: DateParts) => {
+  if (month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day < 1 || day > daysInMonth) return null;
+  return Date.UTC(year, month - 1, day, hour, minute, second, millisecond) - offsetMinutes * 60 * 1000;
+};
+
+const parseISO = (match: RegExpMatchArray) => toTimestamp({
+  year: Number(match[1]),
+  month: Number(match[2]),
+  day: Number(match[3]),
+  hour: Number(match[4] ?? 0),
+  minute: Number(match[5] ?? 0),
+  second: Number(match[6] ?? 0),
+  millisecond: Number((match[7] ?? '0').padEnd(3, '0')),
+  offsetMinutes: parseOffset(match[8])
+});
+
+const parseNumericDate = (match: RegExpMatchArray): ParsedDate | null => {
+  const [, first, separator, second, year, hour, minute, secs, meridiem] = match;
+  const a = Number(first);
+  const b = Number(second);
+
+  // A part above 12 can only be the day; dots are only used day-first
+  const dayFirst = a > 12 || (b <= 12 && separator === '.');
+  const ambiguous = a <= 12 && b <= 12 && a !== b && separator !== '.';
+
+  let hours = Number(hour ?? 0);
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+  }
+
+  const time = toTimestamp({
+    year: Number(year),
+    month: dayFirst ? b : a,
+    day: dayFirst ? a : b,
+    hour: hours,
+    minute: Number(minute ?? 0),
+    second: Number(secs ?? 0)
+  });
+  return time === null ? null : { iso: new Date(time).toISOString(), ambiguous };
+};
+
+/**
+ * Parse a date in any supported format; returns null when the value is not a valid date
+ */
+export function parseDate(value: string): ParsedDate | null {
+  const text = value.trim();
+  if (text === '') return null;
+
+  const iso = text.match(ISO_PATTERN);
+  if (iso) {
+    const time = parseISO(iso);
+    return time === null ? null : { iso: new Date(time).toISOString(), ambiguous: false };
+  }
+
+  const numeric = text.match(NUMERIC_PATTERN);
+  if (numeric) return parseNumericDate(numeric);
+
+  // Epoch seconds (10 digits) or milliseconds (13 digits)
+  if (EPOCH_PATTERN.test(text)) {
+    const time = text.length <= 10 ? Number(text) * 1000 : Number(text);
+    return { iso: new Date(time).toISOString(), ambiguous: false };
+  }
+
+  // Written-out dates such as "Jan 5, 2024" or RFC 2822 timestamps
+  if (MONTH_NAME_PATTERN.test(text)) {
+    const time = Date.parse(ZONE_SUFFIX_PATTERN.test(text) ? text : `${text} UTC`);
+    if (!isNaN(time)) return { iso: new Date(time).toISOString(), ambiguous: false };
+  }
+
+  return null;
+}
+
+/**
+ * Milliseconds since the epoch for a date in any supported format, or NaN
+ */
+export function toTimestampMs(value: string | undefined): number {
+  const parsed = value ? parseDate(value) : null;
+  return parsed ? Date.parse(parsed.iso) : NaN;
+}
+
+/**
+ * Whole days from one date to another; negative when `to` is before `from`
+ */
+export function daysBetween(from: number, to: number): number {
+  const diff = to - from;
+  return Math.sign(diff) * Math.ceil(Math.abs(diff) / DAY_MS);
+}
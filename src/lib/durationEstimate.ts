@@ -0,0 +1,147 @@
+// Migration duration estimates from recorded throughput
+// A repository takes overhead + size × minutes-per-MB + records × minutes-per-record.
+// Each term's mean and spread come from the recorded runs; because a slow or fast run
+// affects every repository alike, the spread of a group is computed from its totals.
+
+import { RepositoryData } from '@/types/repository';
+import { DurationEstimate, EstimatorSettings, ThroughputSample, WaveTotals } from '@/types/migration';
+
+export const DEFAULT_ESTIMATOR_SETTINGS: EstimatorSettings = {
+  samples: [
+    { id: 'sample-1', label: 'Pilot run 1', mbPerMinute: 40, recordsPerMinute: 900, overheadMinutes: 6 },
+    { id: 'sample-2', label: 'Pilot run 2', mbPerMinute: 55, recordsPerMinute: 1200, overheadMinutes: 4 }
+  ],
+  confidence: 0.9,
+  parallelMigrations: 1,
+  hoursPerDay: 24
+};
+
+// Two-sided Student-t quantiles for 1-30 degrees of freedom; beyond that the normal z is close enough
+export const CONFIDENCE_LEVELS: { value: number; label: string; z: number; t: number[] }[] = [
+  {
+    value: 0.8,
+    label: '80%',
+    z: 1.2816,
+    t: [
+      3.078, 1.886, 1.638, 1.533, 1.476, 1.440, 1.415, 1.397, 1.383, 1.372,
+      1.363, 1.356, 1.350, 1.345, 1.341, 1.337, 1.333, 1.330, 1.328, 1.325,
+      1.323, 1.321, 1.319, 1.318, 1.316, 1.315, 1.314, 1.313, 1.311, 1.310
+    ]
+  },
+  {
+    value: 0.9,
+    label: '90%',
+    z: 1.6449,
+    t: [
+      6.314, 2.920, 2.353, 2.132, 2.015, 1.943, 1.895, 1.860, 1.833, 1.812,
+      1.796, 1.782, 1.771, 1.761, 1.753, 1.746, 1.740, 1.734, 1.729, 1.725,
+      1.721, 1.717, 1.714, 1.711, 1.708, 1.706, 1.703, 1.701, 1.699, 1.697
+    ]
+  },
+  {
+    value: 0.95,
+    label: '95%',
+    z: 1.96,
+    t: [
+      12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+      2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+      2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+    ]
+  }
+];
+
+interface Spread {
+  mean: number;
+  std: number;
+}
+
+export interface ThroughputModel {
+  overhead: Spread;
+  minutesPerMb: Spread;
+  minutesPerRecord: Spread;
+  // Samples with a non-positive rate are left out
+  sampleCount: number;
+}
+
+const spreadOf = (values: number[]): Spread => {
+  if (values.length === 0) return { mean: 0, std: 0 };
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (values.length < 2) return { mean, std: 0 };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, std: Math.sqrt(variance) };
+};
+
+const isUsableSample = (sample: ThroughputSample) =>
+  sample.mbPerMinute > 0 && sample.recordsPerMinute > 0 && sample.overheadMinutes >= 0;
+
+/**
+ * Mean and sample standard deviation of per-unit times across the recorded runs
+ */
+export function summarizeThroughput(samples: ThroughputSample[]): ThroughputModel {
+  const usable = samples.filter(isUsableSample);
+  return {
+    overhead: spreadOf(usable.map(sample => sample.overheadMinutes)),
+    minutesPerMb: spreadOf(usable.map(sample => 1 / sample.mbPerMinute)),
+    minutesPerRecord: spreadOf(usable.map(sample => 1 / sample.recordsPerMinute)),
+    sampleCount: usable.length
+  };
+}
+
+// The spreads are estimated from the runs themselves, so the range uses sampleCount - 1 degrees of freedom
+const getQuantile = (confidence: number, degreesOfFreedom: number) => {
+  const level = CONFIDENCE_LEVELS.find(l => l.value === confidence) ?? CONFIDENCE_LEVELS[1];
+  return degreesOfFreedom <= level.t.length ? level.t[degreesOfFreedom - 1] : level.z;
+};
+
+/**
+ * Estimate the sequential duration of a workload, in minutes, with a confidence range
+ */
+export function estimateDuration(totals: WaveTotals, model: ThroughputModel, confidence: number): DurationEstimate {
+  const expected = totals.repos * model.overhead.mean
+    + totals.sizeMb * model.minutesPerMb.mean
+    + totals.records * model.minutesPerRecord.mean;
+  const std = Math.sqrt(
+    (totals.repos * model.overhead.std) ** 2
+    + (totals.sizeMb * model.minutesPerMb.std) ** 2
+    + (totals.records * model.minutesPerRecord.std) ** 2
+  );
+  // A single run says nothing about the variation, so there is no range to give
+  if (model.sampleCount < 2) return { expected, low: expected, high: expected, reliable: false };
+  const margin = getQuantile(confidence, model.sampleCount - 1) * std;
+  return { expected, low: Math.max(0, expected - margin), high: expected + margin, reliable: true };
+}
+
+export const getWorkload = (repos: RepositoryData[]): WaveTotals => ({
+  sizeMb: repos.reduce((sum, repo) => sum + (repo.Repo_Size_mb || 0), 0),
+  records: repos.reduce((sum, repo) => sum + (repo.Record_Count || 0), 0),
+  repos: repos.length
+});
+
+export const estimateRepo = (repo: RepositoryData, model: ThroughputModel, confidence: number) =>
+  estimateDuration(getWorkload([repo]), model, confidence);
+
+/**
+ * Wall-clock days for a sequential duration spread over parallel migrations and working hours
+ */
+export function toCalendarDays(minutes: number, parallelMigrations: number, hoursPerDay: number): number {
+  const lanes = Math.max(1, parallelMigrations);
+  const hours = Math.min(24, Math.max(1, hoursPerDay));
+  return minutes / lanes / 60 / hours;
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 60 * 24) {
+    const rounded = Math.round(minutes);
+    return `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+  }
+  return `${(minutes / 60 / 24).toFixed(1)}d`;
+}
+
+/**
+ * Fill in anything missing from saved settings
+ */
+export function normalizeEstimatorSettings(settings: Partial<EstimatorSettings> | undefined | null): EstimatorSettings {
+  return { ...DEFAULT_ESTIMATOR_SETTINGS, ...settings };
+}
@@ -0,0 +1,33 @@
+// Helpers for exporting tabular results from the browser
+
+// Spreadsheets run text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCSVValue = (value: string | number | boolean | null | undefined): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Numbers are left alone so negative values still import as numbers
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows into RFC 4180 CSV; text that would run as a spreadsheet formula is prefixed with '
+ */
+export function toCSV(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows.map(row => row.map(escapeCSVValue).join(',')).join('\r\n');
+}
+
+/**
+ * Trigger a browser download for generated content
+ */
+export function downloadFile(fileName: string, content: string, mimeType = 'text/csv;charset=utf-8') {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,122 @@
+// Dashboard-wide filter model
+// One filter state is applied in App so every tab analyzes the same subset of repositories.
+
+import { RepositoryData, NUMERICAL_COLUMNS, BOOLEAN_COLUMNS } from '@/types/repository';
+import { DAY_MS, toTimestampMs } from '@/lib/dates';
+
+export type BooleanFacet = 'any' | 'yes' | 'no';
+
+export interface NumericRange {
+  min: number;
+  max: number;
+}
+
+// Inclusive YYYY-MM-DD bounds; an empty string leaves that side open
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DashboardFilters {
+  sourceFile: string | null;
+  // Text query (see query.ts); applied after the facets by useQueryFilter
+  query: string;
+  orgs: string[];
+  booleans: Record<string, BooleanFacet>;
+  ranges: Record<string, NumericRange>;
+  dates: Record<string, DateRange>;
+}
+
+export interface ColumnBounds extends NumericRange {
+  integer: boolean;
+}
+
+export const FILTER_DATE_COLUMNS = ['Created', 'Last_Push'];
+
+export const BOOLEAN_FACET_LABELS: Record<string, string> = {
+  isFork: 'Fork',
+  isArchived: 'Archived',
+  Is_Empty: 'Empty',
+  Has_Wiki: 'Wiki'
+};
+
+export const EMPTY_FILTERS: DashboardFilters = {
+  sourceFile: null,
+  query: '',
+  orgs: [],
+  booleans: {},
+  ranges: {},
+  dates: {}
+};
+
+/**
+ * Number of filters that currently restrict the data; each facet, range and date range counts once
+ */
+export function countActiveFilters(filters: DashboardFilters): number {
+  return (filters.sourceFile ? 1 : 0)
+    + (filters.query ? 1 : 0)
+    + (filters.orgs.length > 0 ? 1 : 0)
+    + Object.values(filters.booleans).filter(facet => facet !== 'any').length
+    + Object.keys(filters.ranges).length
+    + Object.values(filters.dates).filter(range => range.from || range.to).length;
+}
+
+/**
+ * Min and max of each numeric column, used as slider bounds
+ */
+export function getColumnBounds(data: RepositoryData[], columns: string[] = NUMERICAL_COLUMNS): Record<string, ColumnBounds> {
+  const bounds: Record<string, ColumnBounds> = {};
+
+  columns.forEach(column => {
+    let min = Infinity;
+    let max = -Infinity;
+    let integer = true;
+
+    data.forEach(row => {
+      const value = (row as any)[column];
+      if (typeof value !== 'number' || isNaN(value)) return;
+      if (value < min) min = value;
+      if (value > max) max = value;
+      if (!Number.isInteger(value)) integer = false;
+    });
+
+    bounds[column] = min <= max ? { min, max, integer } : { min: 0, max: 0, integer };
+  });
+
+  return bounds;
+}
+
+const matchesDateRange = (value: string, range: DateRange) => {
+  const time = toTimestampMs(value);
+  if (isNaN(time)) return false;
+  if (range.from && time < toTimestampMs(range.from)) return false;
+  // The end date is inclusive, so compare against the start of the following day
+  if (range.to && time >= toTimestampMs(range.to) + DAY_MS) return false;
+  return true;
+};
+
+/**
+ * Repositories that pass every facet, range and date filter; the text query is not applied here
+ */
+export function applyFilters(data: RepositoryData[], filters: DashboardFilters): RepositoryData[] {
+  if (countActiveFilters({ ...filters, query: '' }) === 0) return data;
+
+  const orgs = filters.orgs.length > 0 ? new Set(filters.orgs) : null;
+  const booleans = BOOLEAN_COLUMNS
+    .filter(column => filters.booleans[column] && filters.booleans[column] !== 'any')
+    .map(column => ({ column, expected: filters.booleans[column] === 'yes' }));
+  const ranges = Object.entries(filters.ranges);
+  const dates = Object.entries(filters.dates).filter(([, range]) => range.from || range.to);
+
+  return data.filter(repo => {
+    if (filters.sourceFile && repo.Source_File !== filters.sourceFile) return false;
+    if (orgs && !orgs.has(repo.Org_Name)) return false;
+    if (booleans.some(({ column, expected }) => Boolean((repo as any)[column]) !== expected)) return false;
+    if (ranges.some(([column, range]) => {
+      const value = (repo as any)[column];
+      return typeof value !== 'number' || value < range.min || value > range.max;
+    })) return false;
+    if (dates.some(([column, range]) => !matchesDateRange((repo as any)[column], range))) return false;
+    return true;
+  });
+}
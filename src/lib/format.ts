@@ -0,0 +1,22 @@
+// Display helpers shared by the analysis views
+// Sizes use binary units (1 GB = 1024 MB), matching the KB/MB/GB column mapping transforms.
+
+// Tables render at most this many rows; sorting and CSV exports still cover every row
+export const DISPLAY_LIMIT = 200;
+
+export const formatSize = (sizeInMB: number) => {
+  if (sizeInMB >= 1024) return `${(sizeInMB / 1024).toFixed(1)} GB`;
+  return `${sizeInMB.toFixed(1)} MB`;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+/**
+ * Readable label for a column name: underscores become spaces and camelCase words are split
+ */
+export const formatColumn = (column: string) => column.replace(/_/g, ' ').replace(/([A-Z])/g, ' $1').trim();
@@ -0,0 +1,117 @@
+// Data quality bookkeeping collected while rows are ingested
+
+import { IngestReport, RejectedRow, CoercedCell, InvalidDate, AmbiguousDate } from '@/types/repository';
+import { toCSV } from '@/lib/export';
+
+// Detail lists are capped so a badly broken file cannot exhaust memory;
+// the totals in `counts` stay exact
+export const MAX_REPORT_ENTRIES = 5000;
+
+export interface IngestReportBuilder {
+  skipRow: (row: RejectedRow) => void;
+  coerceCell: (cell: CoercedCell) => void;
+  invalidDate: (date: InvalidDate) => void;
+  ambiguousDate: (date: AmbiguousDate) => void;
+  trackKey: (key: string, line: number) => void;
+  acceptRow: () => void;
+  getRowCounts: () => { accepted: number; skipped: number };
+  build: () => IngestReport;
+}
+
+export function createIngestReportBuilder(fileName: string): IngestReportBuilder {
+  const skippedRows: RejectedRow[] = [];
+  const coercedCells: CoercedCell[] = [];
+  const invalidDates: InvalidDate[] = [];
+  const ambiguousDates: AmbiguousDate[] = [];
+  const keyLines = new Map<string, number[]>();
+  const counts = { skippedRows: 0, coercedCells: 0, invalidDates: 0, ambiguousDates: 0, duplicateKeys: 0 };
+  let acceptedRows = 0;
+
+  const append = <T>(list: T[], entry: T) => {
+    if (list.length < MAX_REPORT_ENTRIES) list.push(entry);
+  };
+
+  return {
+    skipRow: (row) => {
+      counts.skippedRows++;
+      append(skippedRows, row);
+    },
+    coerceCell: (cell) => {
+      counts.coercedCells++;
+      append(coercedCells, cell);
+    },
+    invalidDate: (date) => {
+      counts.invalidDates++;
+      append(invalidDates, date);
+    },
+    ambiguousDate: (date) => {
+      counts.ambiguousDates++;
+      append(ambiguousDates, date);
+    },
+    trackKey: (key, line) => {
+      const lines = keyLines.get(key);
+      if (lines) {
+        lines.push(line);
+      } else {
+        keyLines.set(key, [line]);
+      }
+    },
+    acceptRow: () => {
+      acceptedRows++;
+    },
+    getRowCounts: () => ({ accepted: acceptedRows, skipped: counts.skippedRows }),
+    build: () => {
+      const duplicateKeys = Array.from(keyLines.entries())
+        .filter(([, lines]) => lines.length > 1)
+        .map(([key, lines]) => ({ key, lines }));
+
+      return {
+        fileName,
+        generatedAt: new Date().toISOString(),
+        totalRows: acceptedRows + counts.skippedRows,
+        acceptedRows,
+        skippedRows,
+        coercedCells,
+        invalidDates,
+        ambiguousDates,
+        duplicateKeys: duplicateKeys.slice(0, MAX_REPORT_ENTRIES),
+        counts: { ...counts, duplicateKeys: duplicateKeys.length }
+      };
+    }
+  };
+}
+
+/**
+ * Count every issue recorded in a report
+ */
+export function countReportIssues(report: IngestReport): number {
+  const { skippedRows, coercedCells, invalidDates, ambiguousDates, duplicateKeys } = report.counts;
+  return skippedRows + coercedCells + invalidDates + ambiguousDates + duplicateKeys;
+}
+
+/**
+ * Flatten one or more reports into CSV, one issue per line
+ */
+export function ingestReportsToCSV(reports: IngestReport[]): string {
+  const rows: (string | number)[][] = [['File', 'Category', 'Line', 'Column', 'Value', 'Detail']];
+
+  reports.forEach(report => {
+    report.skippedRows.forEach(row => {
+      rows.push([report.fileName, 'Skipped row', row.line, '', '', row.reason]);
+    });
+    report.coercedCells.forEach(cell => {
+      rows.push([report.fileName, 'Coerced cell', cell.line, cell.column, cell.value, `Coerced to ${cell.coercedTo}`]);
+    });
+    report.invalidDates.forEach(date => {
+      rows.push([report.fileName, 'Invalid date', date.line, date.column, date.value, 'Unparseable date']);
+    });
+    report.ambiguousDates.forEach(date => {
+      rows.push([report.fileName, 'Ambiguous date', date.line, date.column, date.value, `Read as ${date.interpretedAs}`]);
+    });
+    report.duplicateKeys.forEach(duplicate => {
+      rows.push([report.fileName, 'Duplicate key', duplicate.lines.join(' '), 'Org_Name/Repo_Name', duplicate.key, `${duplicate.lines.length} occurrences`]);
+    });
+  });
+
+  return toCSV(rows);
+}
@@ -0,0 +1,146 @@
+// Chunked ingestion of CSV, JSON and NDJSON files on top of the streaming tokenizers
+// Used from the data worker, and from the main thread when workers are unavailable
+
+import { ParseResult } from '@/types/repository';
+import { createCSVTokenizer, CSVRecord, CSVTokenizer } from '@/lib/csv';
+import { createRowParser, getCSVHeaders, RowParser, RowParserOptions } from '@/lib/analytics';
+import { createJSONTokenizer, createNDJSONTokenizer, InputFormat } from '@/lib/jsonLoader';
+import { Compression, openInputStream } from '@/lib/archive';
+
+export interface StreamProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+  rowsRejected: number;
+}
+
+export interface StreamParseOptions extends RowParserOptions {
+  format?: InputFormat;
+  compression?: Compression;
+  onProgress?: (progress: StreamProgress) => void;
+  signal?: AbortSignal;
+  progressInterval?: number; // Minimum milliseconds between progress callbacks
+}
+
+export const CANCELLED_MESSAGE = 'Parsing cancelled';
+
+const createTokenizer = (format: InputFormat): CSVTokenizer => {
+  switch (format) {
+    case 'json':
+      return createJSONTokenizer();
+    case 'ndjson':
+      return createNDJSONTokenizer();
+    case 'csv':
+    default:
+      return createCSVTokenizer();
+  }
+};
+
+/**
+ * Parse a file chunk by chunk without holding the full text in memory
+ * (JSON and NDJSON are the exception: their tokenizers need every object to know the columns)
+ */
+export async function parseInputStream(
+  blob: Blob,
+  { format = 'csv', compression, onProgress, signal, progressInterval = 100, ...parserOptions }: StreamParseOptions
+): Promise<ParseResult> {
+  const totalBytes = blob.size;
+  let bytesRead = 0;
+
+  // Progress is measured on the stored bytes, before any decompression
+  const countingStream = blob.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  }));
+  const stream = compression
+    ? countingStream.pipeThrough(new DecompressionStream(compression))
+    : countingStream;
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  const tokenizer = createTokenizer(format);
+
+  let parser: RowParser | null = null;
+  let lastProgressAt = 0;
+
+  const consume = (records: CSVRecord[]) => {
+    for (const record of records) {
+      if (!parser) {
+        parser = createRowParser(getCSVHeaders(record), parserOptions);
+        continue;
+      }
+      parser.addRecord(record);
+    }
+  };
+
+  const reportProgress = (force: boolean) => {
+    const now = Date.now();
+    const currentParser = parser as RowParser | null;
+    if (onProgress && currentParser && (force || now - lastProgressAt >= progressInterval)) {
+      lastProgressAt = now;
+      const { accepted, skipped } = currentParser.getRowCounts();
+      onProgress({ bytesRead, totalBytes, rowsParsed: accepted, rowsRejected: skipped });
+    }
+  };
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new Error(CANCELLED_MESSAGE);
+      }
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      consume(tokenizer.push(decoder.decode(value, { stream: true })));
+      reportProgress(false);
+    }
+
+    consume(tokenizer.push(decoder.decode()));
+    consume(tokenizer.flush());
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  reportProgress(true);
+
+  const finalParser = parser as RowParser | null;
+  const rowCounts = finalParser?.getRowCounts();
+  if (!finalParser || !rowCounts || rowCounts.accepted + rowCounts.skipped === 0) {
+    throw new Error(format === 'csv'
+      ? 'CSV must contain at least a header row and one data row'
+      : 'File must contain at least one repository');
+  }
+
+  return finalParser.getResult();
+}
+
+/**
+ * Read just the header row of a file (the whole file for JSON and NDJSON)
+ */
+export async function readInputHeaders(
+  blob: Blob,
+  format: InputFormat = 'csv',
+  compression?: Compression
+): Promise<string[]> {
+  const reader = openInputStream(blob, compression).getReader();
+  const decoder = new TextDecoder('utf-8');
+  const tokenizer = createTokenizer(format);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      const records = done
+        ? [...tokenizer.push(decoder.decode()), ...tokenizer.flush()]
+        : tokenizer.push(decoder.decode(value, { stream: true }));
+
+      if (records.length > 0) return getCSVHeaders(records[0]);
+      if (done) throw new Error('File is empty');
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,118 @@
+// Categorization of free-text Migration_Issue messages with user-editable rules
+
+import { RepositoryData, StatisticalSummary } from '@/types/repository';
+import { IssueRule, IssueRuleMatch } from '@/types/migration';
+import { calculateStatistics } from '@/lib/analytics';
+import { hasMigrationIssue } from '@/lib/migrationScore';
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+export const DEFAULT_ISSUE_RULES: IssueRule[] = [
+  { id: 'lfs', category: 'Git LFS', match: 'regex', pattern: '\\blfs\\b|large file storage' },
+  { id: 'oversized-files', category: 'Oversized files', match: 'regex', pattern: '(file|blob|object).*(exceed|too large|larger than|over \\d+ ?mb)|\\b\\d+ ?mb file' },
+  { id: 'repo-size', category: 'Repository size', match: 'regex', pattern: '(repo(sitory)?|archive) (size|is too large)|size limit' },
+  { id: 'records', category: 'Too many records', match: 'regex', pattern: 'too many (records|issues|pull requests|comments|events)|record (count|limit)' },
+  { id: 'metadata', category: 'Metadata limits', match: 'keyword', pattern: 'metadata, attachment, label, milestone, release asset' },
+  { id: 'permissions', category: 'Access and permissions', match: 'keyword', pattern: 'permission, forbidden, unauthorized, 401, 403, token' },
+  { id: 'timeout', category: 'Timeouts', match: 'keyword', pattern: 'timeout, timed out' }
+];
+
+const ISSUE_RULE_MATCHES: IssueRuleMatch[] = ['keyword', 'regex'];
+
+/**
+ * Repair saved rules so a malformed entry can't break classification; anything but a list keeps the defaults
+ */
+export function normalizeIssueRules(rules: unknown): IssueRule[] {
+  if (!Array.isArray(rules)) return DEFAULT_ISSUE_RULES;
+  return rules
+    .filter((rule): rule is Record<string, any> => typeof rule === 'object' && rule !== null)
+    .filter(rule => typeof rule.category === 'string' && typeof rule.pattern === 'string')
+    .map(rule => ({
+      id: typeof rule.id === 'string' && rule.id ? rule.id : crypto.randomUUID(),
+      category: rule.category,
+      match: ISSUE_RULE_MATCHES.includes(rule.match) ? rule.match : 'keyword',
+      pattern: rule.pattern
+    }));
+}
+
+export interface IssueRuleError {
+  ruleId: string;
+  message: string;
+}
+
+export interface IssueMatcher {
+  category: string;
+  test: (message: string) => boolean;
+}
+
+export interface IssueCategorySummary {
+  category: string;
+  repos: RepositoryData[];
+  size: StatisticalSummary;
+  records: StatisticalSummary;
+  totalSizeMb: number;
+  totalRecords: number;
+}
+
+/**
+ * Turn rules into matchers; rules with an invalid regular expression are skipped and reported
+ */
+export function compileIssueRules(rules: IssueRule[]): { matchers: IssueMatcher[]; errors: IssueRuleError[] } {
+  const matchers: IssueMatcher[] = [];
+  const errors: IssueRuleError[] = [];
+
+  rules.forEach(rule => {
+    const category = rule.category.trim() || UNCATEGORIZED;
+    if (!rule.pattern.trim()) return;
+
+    if (rule.match === 'keyword') {
+      const keywords = rule.pattern.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+      matchers.push({ category, test: message => keywords.some(keyword => message.toLowerCase().includes(keyword)) });
+      return;
+    }
+
+    try {
+      const regex = new RegExp(rule.pattern, 'i');
+      matchers.push({ category, test: message => regex.test(message) });
+    } catch (error) {
+      errors.push({ ruleId: rule.id, message: error instanceof Error ? error.message : 'Invalid regular expression' });
+    }
+  });
+
+  return { matchers, errors };
+}
+
+/**
+ * Category of one message; the first matching rule wins
+ */
+export function classifyIssue(message: string, matchers: IssueMatcher[]): string {
+  return matchers.find(matcher => matcher.test(message))?.category ?? UNCATEGORIZED;
+}
+
+const sumColumn = (repos: RepositoryData[], column: 'Repo_Size_mb' | 'Record_Count') =>
+  repos.reduce((sum, repo) => sum + (repo[column] || 0), 0);
+
+/**
+ * Group repositories with a Migration_Issue by category, largest category first
+ */
+export function summarizeIssueCategories(data: RepositoryData[], matchers: IssueMatcher[]): IssueCategorySummary[] {
+  const groups = new Map<string, RepositoryData[]>();
+  data.filter(hasMigrationIssue).forEach(repo => {
+    const category = classifyIssue(repo.Migration_Issue, matchers);
+    const repos = groups.get(category);
+    if (repos) {
+      repos.push(repo);
+    } else {
+      groups.set(category, [repo]);
+    }
+  });
+
+  return Array.from(groups, ([category, repos]) => ({
+    category,
+    repos,
+    size: calculateStatistics(repos, 'Repo_Size_mb'),
+    records: calculateStatistics(repos, 'Record_Count'),
+    totalSizeMb: sumColumn(repos, 'Repo_Size_mb'),
+    totalRecords: sumColumn(repos, 'Record_Count')
+  })).sort((a, b) => b.repos.length - a.repos.length || a.category.localeCompare(b.category));
+}
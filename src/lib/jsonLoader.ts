@@ -0,0 +1,152 @@
+// JSON and newline-delimited JSON loaders
+// Both emit the same records as the CSV tokenizer: a header record first, then one
+// record per repository, so they share the row parser, column mapping and quality report.
+
+import { CSVRecord, CSVTokenizer } from '@/lib/csv';
+
+export type InputFormat = 'csv' | 'json' | 'ndjson';
+
+export const SUPPORTED_EXTENSIONS = ['.csv', '.json', '.ndjson', '.jsonl'];
+
+/**
+ * Pick the loader for a file based on its extension
+ */
+export function detectInputFormat(fileName: string): InputFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.ndjson') || lower.endsWith('.jsonl')) return 'ndjson';
+  if (lower.endsWith('.json')) return 'json';
+  return null;
+}
+
+/**
+ * Convert a JSON value into the text form the row parser expects
+ */
+export function toFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toRecord = (item: Record<string, unknown>, headers: string[], line: number): CSVRecord => ({
+  fields: headers.map(header => toFieldValue(item[header])),
+  line
+});
+
+/**
+ * Tokenizer for newline-delimited JSON. Objects may have different keys and every key
+ * becomes a column, so lines are parsed as they arrive but records are produced on flush.
+ */
+export function createNDJSONTokenizer(): CSVTokenizer {
+  let buffer = '';
+  let line = 0;
+  const headerSet = new Set<string>();
+  const pending: { line: number; item?: Record<string, unknown>; error?: string }[] = [];
+
+  const parseLine = (text: string) => {
+    line++;
+    const trimmed = text.replace(/^\uFEFF/, '').trim();
+    if (trimmed === '') return;
+
+    let item: unknown;
+    try {
+      item = JSON.parse(trimmed);
+    } catch {
+      pending.push({ line, error: 'Invalid JSON' });
+      return;
+    }
+
+    if (!isPlainObject(item)) {
+      pending.push({ line, error: 'Expected a JSON object' });
+      return;
+    }
+
+    Object.keys(item).forEach(key => headerSet.add(key));
+    pending.push({ line, item });
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        parseLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+      return [];
+    },
+    flush: () => {
+      if (buffer !== '') parseLine(buffer);
+      buffer = '';
+      if (pending.length === 0) return [];
+
+      const headers = Array.from(headerSet);
+      const records: CSVRecord[] = [{ fields: headers, line: 0 }];
+      pending.forEach(({ line, item, error }) => {
+        records.push(item ? toRecord(item, headers, line) : { fields: [], line, error });
+      });
+      pending.length = 0;
+      return records;
+    }
+  };
+}
+
+/**
+ * Locate the repository array in a JSON document: either the document itself
+ * or the first array-valued property of a top-level object
+ */
+const findItems = (document: unknown): unknown[] => {
+  if (Array.isArray(document)) return document;
+  if (isPlainObject(document)) {
+    const items = Object.values(document).find(Array.isArray);
+    if (items) return items;
+  }
+  throw new Error('JSON file must contain an array of repositories');
+};
+
+/**
+ * Tokenizer for a JSON document. JSON cannot be parsed incrementally, so input is
+ * buffered and records are produced on flush. Record numbers are array positions.
+ */
+export function createJSONTokenizer(): CSVTokenizer {
+  const chunks: string[] = [];
+
+  return {
+    push: (chunk) => {
+      chunks.push(chunk);
+      return [];
+    },
+    flush: () => {
+      let document: unknown;
+      try {
+        document = JSON.parse(chunks.join('').replace(/^\uFEFF/, ''));
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+      } finally {
+        chunks.length = 0;
+      }
+
+      const items = findItems(document);
+
+      // Every key seen in any object becomes a column
+      const headerSet = new Set<string>();
+      items.forEach(item => {
+        if (isPlainObject(item)) Object.keys(item).forEach(key => headerSet.add(key));
+      });
+      const headers = Array.from(headerSet);
+
+      const records: CSVRecord[] = [{ fields: headers, line: 0 }];
+      items.forEach((item, index) => {
+        records.push(isPlainObject(item)
+          ? toRecord(item, headers, index + 1)
+          : { fields: [], line: index + 1, error: 'Expected a JSON object' });
+      });
+      return records;
+    }
+  };
+}
@@ -0,0 +1,156 @@
+// Pre-migration checks of repositories against known tool limits
+// Rules compare one column to a threshold; the rule set is editable and shared as JSON.
+
+import { RepositoryData } from '@/types/repository';
+import { LimitFinding, LimitOperator, LimitRule, LimitSeverity } from '@/types/migration';
+import { calculateAge } from '@/lib/analytics';
+
+const RULE_FILE_VERSION = 1;
+
+export const LIMIT_DATE_COLUMNS = ['Last_Push', 'Last_Update', 'Created'];
+
+export const LIMIT_SEVERITIES: { severity: LimitSeverity; label: string; className: string }[] = [
+  { severity: 'critical', label: 'Critical', className: 'text-destructive border-destructive' },
+  { severity: 'warning', label: 'Warning', className: 'text-amber-700 border-amber-700' },
+  { severity: 'info', label: 'Info', className: 'text-muted-foreground' }
+];
+
+export const LIMIT_OPERATORS: { operator: LimitOperator; label: string }[] = [
+  { operator: 'above', label: 'above' },
+  { operator: 'below', label: 'below' },
+  { operator: 'olderThan', label: 'older than (days)' }
+];
+
+export const DEFAULT_LIMIT_RULES: LimitRule[] = [
+  { id: 'archive-size', name: 'Archive exceeds 40 GB', column: 'Repo_Size_mb', operator: 'above', threshold: 40000, severity: 'critical' },
+  { id: 'large-repo', name: 'Large repository', column: 'Repo_Size_mb', operator: 'above', threshold: 10000, severity: 'warning' },
+  { id: 'record-count', name: 'Very high record count', column: 'Record_Count', operator: 'above', threshold: 1000000, severity: 'warning' },
+  { id: 'branch-count', name: 'Many branches', column: 'Branch_Count', operator: 'above', threshold: 1000, severity: 'warning' },
+  { id: 'tag-count', name: 'Many tags', column: 'Tag_Count', operator: 'above', threshold: 1000, severity: 'info' },
+  { id: 'stale-push', name: 'No push in three years', column: 'Last_Push', operator: 'olderThan', threshold: 1095, severity: 'info' }
+];
+
+export interface LimitRuleImportResult {
+  rules: LimitRule[];
+  error: string | null;
+}
+
+const SEVERITY_RANK: Record<LimitSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+export const compareSeverity = (a: LimitSeverity, b: LimitSeverity) => SEVERITY_RANK[a] - SEVERITY_RANK[b];
+
+export const getSeverityInfo = (severity: LimitSeverity) =>
+  LIMIT_SEVERITIES.find(info => info.severity === severity) ?? LIMIT_SEVERITIES[2];
+
+const ruleValue = (repo: RepositoryData, rule: LimitRule, asOf: string): number => {
+  const raw = (repo as any)[rule.column];
+  if (rule.operator === 'olderThan') return typeof raw === 'string' && raw ? calculateAge(raw, asOf) : NaN;
+  return typeof raw === 'number' ? raw : NaN;
+};
+
+const violates = (value: number, rule: LimitRule) => {
+  if (isNaN(value)) return false;
+  // A date after the as-of date has no age yet
+  if (rule.operator === 'olderThan' && value < 0) return false;
+  return rule.operator === 'below' ? value < rule.threshold : value > rule.threshold;
+};
+
+/**
+ * Rules one repository breaks, most severe first
+ */
+export function getRepoFindings(repo: RepositoryData, rules: LimitRule[], asOf: string): LimitFinding[] {
+  return rules
+    .map(rule => ({ rule, repo, value: ruleValue(repo, rule, asOf) }))
+    .filter(finding => violates(finding.value, finding.rule))
+    .sort((a, b) => compareSeverity(a.rule.severity, b.rule.severity));
+}
+
+/**
+ * Evaluate every rule against every repository; findings are ordered by severity, then rule order
+ */
+export function evaluateLimitRules(data: RepositoryData[], rules: LimitRule[], asOf: string): LimitFinding[] {
+  const findings: LimitFinding[] = [];
+  rules.forEach(rule => {
+    data.forEach(repo => {
+      const value = ruleValue(repo, rule, asOf);
+      if (violates(value, rule)) findings.push({ rule, repo, value });
+    });
+  });
+  // Array.prototype.sort is stable, so rule order is kept within a severity
+  return findings.sort((a, b) => compareSeverity(a.rule.severity, b.rule.severity));
+}
+
+/**
+ * Describe a finding, e.g. "Repo_Size_mb 52,000 above 40,000"
+ */
+export function describeFinding(finding: LimitFinding): string {
+  const { rule, value } = finding;
+  if (rule.operator === 'olderThan') {
+    return `${rule.column} ${Math.round(value).toLocaleString()} days ago (limit ${rule.threshold.toLocaleString()})`;
+  }
+  return `${rule.column} ${value.toLocaleString()} ${rule.operator} ${rule.threshold.toLocaleString()}`;
+}
+
+/**
+ * Serialize rules for sharing
+ */
+export function exportLimitRules(rules: LimitRule[]): string {
+  return JSON.stringify({ version: RULE_FILE_VERSION, rules }, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeRule = (raw: unknown): LimitRule | null => {
+  if (!isObject(raw) || typeof raw.column !== 'string' || !raw.column) return null;
+  const threshold = Number(raw.threshold);
+  if (!Number.isFinite(threshold)) return null;
+
+  const operator = LIMIT_OPERATORS.some(o => o.operator === raw.operator) ? raw.operator as LimitOperator : 'above';
+  const severity = LIMIT_SEVERITIES.some(s => s.severity === raw.severity) ? raw.severity as LimitSeverity : 'warning';
+  return {
+    id: crypto.randomUUID(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `${raw.column} ${operator} ${threshold}`,
+    column: raw.column,
+    operator,
+    threshold,
+    severity
+  };
+};
+
+/**
+ * Repair saved rules so a malformed entry can't break evaluation; anything but a list keeps the defaults
+ */
+export function normalizeLimitRules(rules: unknown): LimitRule[] {
+  if (!Array.isArray(rules)) return DEFAULT_LIMIT_RULES;
+  return rules.flatMap(raw => {
+    const rule = normalizeRule(raw);
+    if (!rule) return [];
+    // Saved rules keep their ids; imported ones always get new ids
+    return [typeof raw.id === 'string' && raw.id ? { ...rule, id: raw.id } : rule];
+  });
+}
+
+/**
+ * Read rules from JSON; accepts the export format or a bare array of rules
+ */
+export function importLimitRules(text: string): LimitRuleImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { rules: [], error: 'File is not valid JSON' };
+  }
+
+  const rawRules = isObject(parsed) && Array.isArray(parsed.rules)
+    ? parsed.rules
+    : Array.isArray(parsed) ? parsed : [];
+
+  const rules = rawRules
+    .map(normalizeRule)
+    .filter((rule: LimitRule | null): rule is LimitRule => rule !== null);
+
+  if (rules.length === 0) return { rules: [], error: 'No rules found in file' };
+  const skipped = rawRules.length - rules.length;
+  return { rules, error: skipped > 0 ? `${skipped} invalid rule(s) skipped` : null };
+}
@@ -0,0 +1,127 @@
+// Combining rows from several uploaded files into one deduplicated dataset
+
+import { RepositoryData, REQUIRED_COLUMNS, NUMERICAL_COLUMNS } from '@/types/repository';
+import { toTimestampMs } from '@/lib/dates';
+
+export type MergePolicy = 'latest' | 'max' | 'first';
+export type MergeKeyStrategy = 'name' | 'url';
+
+export const MERGE_POLICIES: { value: MergePolicy; label: string; description: string }[] = [
+  { value: 'latest', label: 'Keep latest', description: 'Keep the row with the most recent Last_Update' },
+  { value: 'max', label: 'Keep max values', description: 'Take the largest value of every numeric column' },
+  { value: 'first', label: 'First file wins', description: 'Keep the row from the earliest file in the upload' }
+];
+
+// How the files of one upload were combined; kept with the snapshot so it can be re-merged
+export interface MergeSettings {
+  policy: MergePolicy;
+  strategy: MergeKeyStrategy;
+}
+
+export interface MergeSource {
+  fileName: string;
+  data: RepositoryData[];
+}
+
+export interface MergeConflict {
+  key: string;
+  files: string[];
+  differingColumns: string[];
+}
+
+export interface MergeResult {
+  data: RepositoryData[];
+  conflicts: MergeConflict[];
+  removedRows: number;
+}
+
+interface Occurrence {
+  row: RepositoryData;
+  fileName: string;
+}
+
+/**
+ * Identity of a repository across files
+ */
+export function getMergeKey(row: RepositoryData, strategy: MergeKeyStrategy = 'name'): string {
+  if (strategy === 'url' && row.Full_URL) {
+    return row.Full_URL.trim().toLowerCase().replace(/\/+$/, '');
+  }
+  return `${row.Org_Name}/${row.Repo_Name}`.toLowerCase();
+}
+
+const groupOccurrences = (sources: MergeSource[], strategy: MergeKeyStrategy) => {
+  const groups = new Map<string, Occurrence[]>();
+  sources.forEach(({ fileName, data }) => {
+    data.forEach(row => {
+      const key = getMergeKey(row, strategy);
+      const group = groups.get(key);
+      if (group) {
+        group.push({ row, fileName });
+      } else {
+        groups.set(key, [{ row, fileName }]);
+      }
+    });
+  });
+  return groups;
+};
+
+const findDifferingColumns = (occurrences: Occurrence[]): string[] => {
+  const [first, ...rest] = occurrences;
+  return REQUIRED_COLUMNS.filter(column =>
+    rest.some(({ row }) => (row as any)[column] !== (first.row as any)[column])
+  );
+};
+
+const timestampOf = (row: RepositoryData) => {
+  const time = toTimestampMs(row.Last_Update);
+  return isNaN(time) ? -Infinity : time;
+};
+
+const resolveConflict = (occurrences: Occurrence[], policy: MergePolicy): RepositoryData => {
+  switch (policy) {
+    case 'latest':
+      return occurrences.reduce((latest, current) =>
+        timestampOf(current.row) > timestampOf(latest.row) ? current : latest
+      ).row;
+    case 'max': {
+      const merged: any = { ...occurrences[0].row };
+      NUMERICAL_COLUMNS.forEach(column => {
+        merged[column] = Math.max(...occurrences.map(({ row }) => (row as any)[column] || 0));
+      });
+      return merged as RepositoryData;
+    }
+    case 'first':
+    default:
+      return occurrences[0].row;
+  }
+};
+
+/**
+ * Merge all sources into one row per repository using the chosen conflict policy
+ */
+export function mergeSources(
+  sources: MergeSource[],
+  policy: MergePolicy,
+  strategy: MergeKeyStrategy = 'name'
+): MergeResult {
+  const data: RepositoryData[] = [];
+  const conflicts: MergeConflict[] = [];
+  let totalRows = 0;
+
+  groupOccurrences(sources, strategy).forEach((occurrences, key) => {
+    totalRows += occurrences.length;
+    if (occurrences.length === 1) {
+      data.push(occurrences[0].row);
+      return;
+    }
+    conflicts.push({
+      key,
+      files: occurrences.map(o => o.fileName),
+      differingColumns: findDifferingColumns(occurrences)
+    });
+    data.push(resolveConflict(occurrences, policy));
+  });
+
+  return { data, conflicts, removedRows: totalRows - data.length };
+}
@@ -0,0 +1,119 @@
+// Weighted migration complexity score per repository
+// Each factor is placed on a log scale between a "trivial" and a "hard" reference value,
+// then combined with the user's weights into a 0-100 score and a tier.
+
+import { RepositoryData } from '@/types/repository';
+import { MigrationScore, MigrationTier, ScoringFactorId, ScoringModel, FactorContribution } from '@/types/migration';
+
+export interface ScoringFactorDefinition {
+  id: ScoringFactorId;
+  label: string;
+  columns: (keyof RepositoryData)[];
+  // Values at or below `low` add nothing; at or above `high` the factor counts fully
+  low: number;
+  high: number;
+}
+
+export const SCORING_FACTORS: ScoringFactorDefinition[] = [
+  { id: 'size', label: 'Repository size (MB)', columns: ['Repo_Size_mb'], low: 100, high: 10000 },
+  { id: 'records', label: 'Migration records', columns: ['Record_Count'], low: 1000, high: 1000000 },
+  { id: 'pullRequests', label: 'Pull requests and reviews', columns: ['PR_Count', 'PR_Review_Count'], low: 100, high: 50000 },
+  { id: 'issues', label: 'Issues and issue events', columns: ['Issue_Count', 'Issue_Event_Count'], low: 500, high: 100000 },
+  {
+    id: 'comments',
+    label: 'Comments',
+    columns: ['Issue_Comment_Count', 'PR_Review_Comment_Count', 'Commit_Comment_Count'],
+    low: 1000,
+    high: 200000
+  },
+  { id: 'refs', label: 'Branches and tags', columns: ['Branch_Count', 'Tag_Count', 'Protected_Branch_Count'], low: 50, high: 5000 },
+  { id: 'migrationIssue', label: 'Reported migration issue', columns: ['Migration_Issue'], low: 0, high: 1 }
+];
+
+export const MIGRATION_TIERS: { tier: MigrationTier; label: string; className: string }[] = [
+  { tier: 'easy', label: 'Easy', className: 'text-green-700 border-green-700' },
+  { tier: 'moderate', label: 'Moderate', className: 'text-amber-700 border-amber-700' },
+  { tier: 'complex', label: 'Complex', className: 'text-orange-700 border-orange-700' },
+  { tier: 'blocked', label: 'Blocked', className: 'text-destructive border-destructive' }
+];
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  weights: { size: 3, records: 3, pullRequests: 2, issues: 1, comments: 1, refs: 1, migrationIssue: 4 },
+  thresholds: { moderate: 25, complex: 50, blocked: 85 },
+  blockOnMigrationIssue: true
+};
+
+// gh-repo-stats exports write TRUE/FALSE into Migration_Issue instead of leaving it blank
+const NO_ISSUE_VALUES = new Set(['', 'false', 'no', 'none', '0']);
+
+export const hasMigrationIssue = (repo: RepositoryData) => {
+  const value: unknown = repo.Migration_Issue;
+  if (typeof value === 'boolean') return value;
+  return typeof value === 'string' && !NO_ISSUE_VALUES.has(value.trim().toLowerCase());
+};
+
+const factorValue = (repo: RepositoryData, factor: ScoringFactorDefinition) => {
+  if (factor.id === 'migrationIssue') return hasMigrationIssue(repo) ? 1 : 0;
+  return factor.columns.reduce((sum, column) => {
+    const value = repo[column];
+    return typeof value === 'number' && !isNaN(value) ? sum + value : sum;
+  }, 0);
+};
+
+const normalize = (value: number, factor: ScoringFactorDefinition) => {
+  if (factor.id === 'migrationIssue') return value;
+  if (value <= factor.low) return 0;
+  if (value >= factor.high) return 1;
+  return (Math.log1p(value) - Math.log1p(factor.low)) / (Math.log1p(factor.high) - Math.log1p(factor.low));
+};
+
+/**
+ * Pick the tier for a score; thresholds are checked from the hardest tier down
+ */
+export function getTier(score: number, model: ScoringModel, blockedByIssue = false): MigrationTier {
+  if (blockedByIssue || score >= model.thresholds.blocked) return 'blocked';
+  if (score >= model.thresholds.complex) return 'complex';
+  if (score >= model.thresholds.moderate) return 'moderate';
+  return 'easy';
+}
+
+/**
+ * Score one repository against the model; contributions are listed largest first
+ */
+export function scoreRepository(repo: RepositoryData, model: ScoringModel): MigrationScore {
+  const totalWeight = SCORING_FACTORS.reduce((sum, factor) => sum + Math.max(0, model.weights[factor.id] ?? 0), 0);
+
+  const contributions: FactorContribution[] = SCORING_FACTORS.map(factor => {
+    const normalized = normalize(factorValue(repo, factor), factor);
+    const weight = Math.max(0, model.weights[factor.id] ?? 0);
+    return {
+      factor: factor.id,
+      normalized,
+      points: totalWeight > 0 ? (normalized * weight / totalWeight) * 100 : 0
+    };
+  }).sort((a, b) => b.points - a.points);
+
+  const score = Math.round(contributions.reduce((sum, c) => sum + c.points, 0) * 10) / 10;
+  return {
+    score,
+    tier: getTier(score, model, model.blockOnMigrationIssue && hasMigrationIssue(repo)),
+    contributions
+  };
+}
+
+/**
+ * Fill in anything missing from a saved model so older saved settings keep working
+ */
+export function normalizeScoringModel(model: Partial<ScoringModel> | undefined | null): ScoringModel {
+  return {
+    weights: { ...DEFAULT_SCORING_MODEL.weights, ...model?.weights },
+    thresholds: { ...DEFAULT_SCORING_MODEL.thresholds, ...model?.thresholds },
+    blockOnMigrationIssue: model?.blockOnMigrationIssue ?? DEFAULT_SCORING_MODEL.blockOnMigrationIssue
+  };
+}
+
+export const getFactorLabel = (id: ScoringFactorId) =>
+  SCORING_FACTORS.find(factor => factor.id === id)?.label ?? id;
+
+export const getTierInfo = (tier: MigrationTier) =>
+  MIGRATION_TIERS.find(info => info.tier === tier) ?? MIGRATION_TIERS[0];
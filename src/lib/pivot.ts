@@ -0,0 +1,179 @@
+// Spreadsheet-style pivots over repository rows
+
+import { RepositoryData } from '@/types/repository';
+import { getGroupKey } from '@/lib/analytics';
+
+export type PivotAggregation = 'sum' | 'mean' | 'median' | 'count';
+
+export interface PivotConfig {
+  // One or two row dimensions; the second one adds subtotal rows per outer group
+  rows: string[];
+  columns: string | null;
+  value: string;
+  aggregation: PivotAggregation;
+}
+
+export interface PivotRow {
+  keys: string[];
+  isSubtotal: boolean;
+  // Null where no repository falls into the cell
+  cells: (number | null)[];
+  total: number | null;
+}
+
+export interface PivotResult {
+  columnKeys: string[];
+  rows: PivotRow[];
+  columnTotals: (number | null)[];
+  grandTotal: number | null;
+}
+
+export const PIVOT_AGGREGATIONS: { value: PivotAggregation; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'mean', label: 'Mean' },
+  { value: 'median', label: 'Median' },
+  { value: 'count', label: 'Count' }
+];
+
+// Values are kept rather than running sums so medians and means of totals stay exact
+interface Bucket {
+  rowCount: number;
+  values: number[];
+}
+
+const createBucket = (): Bucket => ({ rowCount: 0, values: [] });
+
+const addToBucket = (buckets: Map<string, Bucket>, key: string, value: unknown) => {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = createBucket();
+    buckets.set(key, bucket);
+  }
+  bucket.rowCount++;
+  if (typeof value === 'number' && !isNaN(value)) bucket.values.push(value);
+};
+
+const aggregateBucket = (bucket: Bucket | undefined, aggregation: PivotAggregation): number | null => {
+  if (!bucket || bucket.rowCount === 0) return null;
+  if (aggregation === 'count') return bucket.rowCount;
+
+  const { values } = bucket;
+  if (values.length === 0) return null;
+
+  switch (aggregation) {
+    case 'sum':
+      return values.reduce((sum, v) => sum + v, 0);
+    case 'mean':
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    }
+  }
+};
+
+const compareKeys = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// Unit separator keeps composite keys unambiguous for arbitrary text values
+const joinKeys = (...keys: string[]) => keys.join('\u001f');
+
+/**
+ * Build a pivot grid with row totals, column totals and subtotals for the outer row dimension
+ */
+export function buildPivot(data: RepositoryData[], config: PivotConfig): PivotResult {
+  const [outerDimension, innerDimension] = config.rows;
+  const cellBuckets = new Map<string, Bucket>();
+  const rowBuckets = new Map<string, Bucket>();
+  const subtotalCellBuckets = new Map<string, Bucket>();
+  const subtotalBuckets = new Map<string, Bucket>();
+  const columnBuckets = new Map<string, Bucket>();
+  const grandBucket = new Map<string, Bucket>();
+  const outerKeys = new Set<string>();
+  const innerKeys = new Map<string, Set<string>>();
+  const columnKeySet = new Set<string>();
+
+  data.forEach(row => {
+    const value = (row as any)[config.value];
+    const outer = getGroupKey(row, outerDimension);
+    const inner = innerDimension ? getGroupKey(row, innerDimension) : null;
+    // Without a column dimension the grid is just the totals column
+    const column = config.columns ? getGroupKey(row, config.columns) : null;
+    const rowKey = inner === null ? outer : joinKeys(outer, inner);
+
+    outerKeys.add(outer);
+    if (column !== null) columnKeySet.add(column);
+    if (inner !== null) {
+      if (!innerKeys.has(outer)) innerKeys.set(outer, new Set());
+      innerKeys.get(outer)!.add(inner);
+      if (column !== null) addToBucket(subtotalCellBuckets, joinKeys(outer, column), value);
+      addToBucket(subtotalBuckets, outer, value);
+    }
+
+    if (column !== null) {
+      addToBucket(cellBuckets, joinKeys(rowKey, column), value);
+      addToBucket(columnBuckets, column, value);
+    }
+    addToBucket(rowBuckets, rowKey, value);
+    addToBucket(grandBucket, '', value);
+  });
+
+  const columnKeys = Array.from(columnKeySet).sort(compareKeys);
+  const aggregate = (bucket: Bucket | undefined) => aggregateBucket(bucket, config.aggregation);
+
+  const rows: PivotRow[] = [];
+  Array.from(outerKeys).sort(compareKeys).forEach(outer => {
+    if (!innerDimension) {
+      rows.push({
+        keys: [outer],
+        isSubtotal: false,
+        cells: columnKeys.map(column => aggregate(cellBuckets.get(joinKeys(outer, column)))),
+        total: aggregate(rowBuckets.get(outer))
+      });
+      return;
+    }
+
+    Array.from(innerKeys.get(outer) ?? []).sort(compareKeys).forEach(inner => {
+      const rowKey = joinKeys(outer, inner);
+      rows.push({
+        keys: [outer, inner],
+        isSubtotal: false,
+        cells: columnKeys.map(column => aggregate(cellBuckets.get(joinKeys(rowKey, column)))),
+        total: aggregate(rowBuckets.get(rowKey))
+      });
+    });
+    rows.push({
+      keys: [outer, ''],
+      isSubtotal: true,
+      cells: columnKeys.map(column => aggregate(subtotalCellBuckets.get(joinKeys(outer, column)))),
+      total: aggregate(subtotalBuckets.get(outer))
+    });
+  });
+
+  return {
+    columnKeys,
+    rows,
+    columnTotals: columnKeys.map(column => aggregate(columnBuckets.get(column))),
+    grandTotal: aggregate(grandBucket.get(''))
+  };
+}
+
+/**
+ * Flatten a pivot grid into CSV rows, including subtotal and total rows
+ */
+export function pivotToRows(result: PivotResult, config: PivotConfig): (string | number | null)[][] {
+  const dimensionHeaders = config.rows;
+  const header = [...dimensionHeaders, ...result.columnKeys, 'Total'];
+  const rows = result.rows.map(row => [
+    ...(row.isSubtotal ? [`${row.keys[0]} subtotal`, ...row.keys.slice(1)] : row.keys),
+    ...row.cells,
+    row.total
+  ]);
+  const totalRow = [
+    'Total',
+    ...dimensionHeaders.slice(1).map(() => ''),
+    ...result.columnTotals,
+    result.grandTotal
+  ];
+  return [header, ...rows, totalRow];
+}
@@ -0,0 +1,420 @@
+// Text query language for filtering repositories
+// e.g. Repo_Size_mb > 1000 and not isArchived and Org_Name in ("core", "infra")
+//
+//   expression := term ('or' term)*
+//   term       := factor ('and' factor)*
+//   factor     := 'not' factor | '(' expression ')' | condition
+//   condition  := column [ operator value | 'in' '(' value (',' value)* ')' | 'contains' string ]
+//
+// A bare column is true when its value is truthy. Column names are matched case-insensitively
+// and may be written in backticks when they contain spaces. Queries are parsed against the
+// column types so mistakes are reported with their position instead of silently matching nothing.
+
+import {
+  RepositoryData,
+  ColumnInfo,
+  ColumnType,
+  REQUIRED_COLUMNS,
+  NUMERICAL_COLUMNS,
+  BOOLEAN_COLUMNS,
+  DATE_COLUMNS
+} from '@/types/repository';
+import { toTimestampMs } from '@/lib/dates';
+
+export type QueryValue = string | number | boolean;
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { kind: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { kind: 'not'; operand: QueryNode }
+  | { kind: 'truthy'; column: ColumnInfo }
+  | { kind: 'compare'; column: ColumnInfo; operator: ComparisonOperator; value: QueryValue }
+  | { kind: 'in'; column: ColumnInfo; values: QueryValue[] }
+  | { kind: 'contains'; column: ColumnInfo; value: string };
+
+export interface QuerySyntaxError {
+  message: string;
+  // Zero-based offset and length of the offending text
+  position: number;
+  length: number;
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null;
+  error: QuerySyntaxError | null;
+}
+
+export interface QuerySuggestions {
+  // Range of the query text replaced by a suggestion
+  from: number;
+  to: number;
+  suggestions: string[];
+}
+
+type TokenType = 'identifier' | 'number' | 'string' | 'operator' | 'keyword' | '(' | ')' | ',' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: QueryValue;
+  position: number;
+  length: number;
+}
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'contains', 'true', 'false'];
+const OPERATORS: ComparisonOperator[] = ['=', '!=', '>', '>=', '<', '<='];
+const ORDERED_TYPES: ColumnType[] = ['numeric', 'date'];
+
+const syntaxError = (message: string, position: number, length = 1): QuerySyntaxError => ({
+  message,
+  position,
+  length: Math.max(length, 1)
+});
+
+/**
+ * Columns a query can reference: the standard inventory columns plus inferred extra columns
+ */
+export function getQueryColumns(extraColumns: ColumnInfo[] = []): ColumnInfo[] {
+  const standard = REQUIRED_COLUMNS.map(name => ({
+    name,
+    type: (NUMERICAL_COLUMNS.includes(name) ? 'numeric'
+      : BOOLEAN_COLUMNS.includes(name) ? 'boolean'
+      : DATE_COLUMNS.includes(name) ? 'date'
+      : 'categorical') as ColumnType
+  }));
+  return [...standard, ...extraColumns.filter(extra => !REQUIRED_COLUMNS.includes(extra.name))];
+}
+
+/**
+ * Readable form of a syntax error, with a one-based column like an editor shows
+ */
+export function formatQueryError(error: QuerySyntaxError): string {
+  return `Column ${error.position + 1}: ${error.message}`;
+}
+
+const tokenize = (text: string): { tokens: Token[]; error: QuerySyntaxError | null } => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char, text: char, position: index, length: 1 });
+      index++;
+      continue;
+    }
+
+    if ('=!<>'.includes(char)) {
+      const two = text.slice(index, index + 2);
+      const operator = two === '==' ? '=' : ['!=', '>=', '<='].includes(two) ? two : char;
+      const length = ['==', '!=', '>=', '<='].includes(two) ? 2 : 1;
+      if (operator === '!') return { tokens, error: syntaxError("Expected '=' after '!'", index) };
+      tokens.push({ type: 'operator', text: operator, position: index, length });
+      index += length;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      const end = text.indexOf(char, index + 1);
+      if (end === -1) {
+        const what = char === '`' ? 'column name' : 'string';
+        return { tokens, error: syntaxError(`Unterminated ${what}`, index, text.length - index) };
+      }
+      const content = text.slice(index + 1, end);
+      tokens.push(char === '`'
+        ? { type: 'identifier', text: content, position: index, length: end - index + 1 }
+        : { type: 'string', text: content, value: content, position: index, length: end - index + 1 });
+      index = end + 1;
+      continue;
+    }
+
+    const number = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: Number(number[0]), position: index, length: number[0].length });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(index));
+    if (word) {
+      const lower = word[0].toLowerCase();
+      if (KEYWORDS.includes(lower)) {
+        const value = lower === 'true' ? true : lower === 'false' ? false : undefined;
+        tokens.push({ type: 'keyword', text: lower, value, position: index, length: word[0].length });
+      } else {
+        tokens.push({ type: 'identifier', text: word[0], position: index, length: word[0].length });
+      }
+      index += word[0].length;
+      continue;
+    }
+
+    return { tokens, error: syntaxError(`Unexpected character '${char}'`, index) };
+  }
+
+  tokens.push({ type: 'end', text: '', position: text.length, length: 0 });
+  return { tokens, error: null };
+};
+
+const describeToken = (token: Token) => (token.type === 'end' ? 'end of query' : `'${token.text}'`);
+
+const isLiteral = (token: Token) =>
+  token.type === 'number' || token.type === 'string' || (token.type === 'keyword' && typeof token.value === 'boolean');
+
+// Check a literal against the column type and convert dates to timestamps
+const coerceLiteral = (column: ColumnInfo, token: Token): QueryValue => {
+  const value = token.value as QueryValue;
+  switch (column.type) {
+    case 'numeric':
+      if (typeof value !== 'number') throw syntaxError(`${column.name} is numeric; expected a number`, token.position, token.length);
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') throw syntaxError(`${column.name} is true/false; expected true or false`, token.position, token.length);
+      return value;
+    case 'date': {
+      const time = toTimestampMs(String(value));
+      if (isNaN(time)) throw syntaxError(`${column.name} is a date; could not read ${describeToken(token)} as a date`, token.position, token.length);
+      return time;
+    }
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Parse a query into a syntax tree; an empty query parses to null without an error
+ */
+export function parseQuery(text: string, columns: ColumnInfo[]): ParsedQuery {
+  if (text.trim() === '') return { ast: null, error: null };
+
+  const { tokens, error } = tokenize(text);
+  if (error) return { ast: null, error };
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isKeyword = (keyword: string) => peek().type === 'keyword' && peek().text === keyword;
+
+  const expect = (type: TokenType, expected: string) => {
+    const token = next();
+    if (token.type !== type) throw syntaxError(`Expected ${expected} but found ${describeToken(token)}`, token.position, token.length);
+    return token;
+  };
+
+  const resolveColumn = (token: Token): ColumnInfo => {
+    const column = columns.find(c => c.name === token.text)
+      ?? columns.find(c => c.name.toLowerCase() === token.text.toLowerCase());
+    if (!column) throw syntaxError(`Unknown column '${token.text}'`, token.position, token.length);
+    return column;
+  };
+
+  const parseCondition = (): QueryNode => {
+    const token = next();
+    if (token.type !== 'identifier') {
+      throw syntaxError(`Expected a column name but found ${describeToken(token)}`, token.position, token.length);
+    }
+    const column = resolveColumn(token);
+
+    if (peek().type === 'operator') {
+      const operatorToken = next();
+      const operator = operatorToken.text as ComparisonOperator;
+      const valueToken = next();
+      if (!isLiteral(valueToken)) {
+        throw syntaxError(`Expected a value after '${operator}' but found ${describeToken(valueToken)}`, valueToken.position, valueToken.length);
+      }
+      if (!['=', '!='].includes(operator) && !ORDERED_TYPES.includes(column.type)) {
+        throw syntaxError(`'${operator}' needs a numeric or date column; ${column.name} is ${column.type}`, operatorToken.position, operatorToken.length);
+      }
+      return { kind: 'compare', column, operator, value: coerceLiteral(column, valueToken) };
+    }
+
+    if (isKeyword('in')) {
+      next();
+      expect('(', "'(' after 'in'");
+      const values: QueryValue[] = [];
+      do {
+        const valueToken = next();
+        if (!isLiteral(valueToken)) {
+          throw syntaxError(`Expected a value but found ${describeToken(valueToken)}`, valueToken.position, valueToken.length);
+        }
+        values.push(coerceLiteral(column, valueToken));
+      } while (peek().type === ',' && next());
+      expect(')', "',' or ')'");
+      return { kind: 'in', column, values };
+    }
+
+    if (isKeyword('contains')) {
+      next();
+      const valueToken = expect('string', "a quoted string after 'contains'");
+      return { kind: 'contains', column, value: String(valueToken.value) };
+    }
+
+    return { kind: 'truthy', column };
+  };
+
+  const parseFactor = (): QueryNode => {
+    if (isKeyword('not')) {
+      next();
+      return { kind: 'not', operand: parseFactor() };
+    }
+    if (peek().type === '(') {
+      next();
+      const inner = parseExpression();
+      expect(')', "')'");
+      return inner;
+    }
+    return parseCondition();
+  };
+
+  const parseTerm = (): QueryNode => {
+    let left = parseFactor();
+    while (isKeyword('and')) {
+      next();
+      left = { kind: 'and', left, right: parseFactor() };
+    }
+    return left;
+  };
+
+  const parseExpression = (): QueryNode => {
+    let left = parseTerm();
+    while (isKeyword('or')) {
+      next();
+      left = { kind: 'or', left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  try {
+    const ast = parseExpression();
+    const trailing = peek();
+    if (trailing.type !== 'end') {
+      throw syntaxError(`Expected 'and', 'or' or end of query but found ${describeToken(trailing)}`, trailing.position, trailing.length);
+    }
+    return { ast, error: null };
+  } catch (err) {
+    if (err && typeof err === 'object' && 'position' in err) return { ast: null, error: err as QuerySyntaxError };
+    throw err;
+  }
+}
+
+const readValue = (row: RepositoryData, column: ColumnInfo): QueryValue | null => {
+  const value = (row as any)[column.name];
+  if (value === null || value === undefined || value === '') return null;
+  if (column.type === 'date') {
+    const time = toTimestampMs(String(value));
+    return isNaN(time) ? null : time;
+  }
+  return value;
+};
+
+// Strings compare case-insensitively
+const equals = (a: QueryValue, b: QueryValue) =>
+  typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+const compare = (value: QueryValue | null, operator: ComparisonOperator, expected: QueryValue) => {
+  if (operator === '!=') return value === null || !equals(value, expected);
+  if (value === null) return false;
+  switch (operator) {
+    case '=': return equals(value, expected);
+    case '>': return value > expected;
+    case '>=': return value >= expected;
+    case '<': return value < expected;
+    case '<=': return value <= expected;
+  }
+};
+
+/**
+ * Turn a syntax tree into a row predicate
+ */
+export function compileQuery(ast: QueryNode): (row: RepositoryData) => boolean {
+  switch (ast.kind) {
+    case 'and': {
+      const left = compileQuery(ast.left);
+      const right = compileQuery(ast.right);
+      return row => left(row) && right(row);
+    }
+    case 'or': {
+      const left = compileQuery(ast.left);
+      const right = compileQuery(ast.right);
+      return row => left(row) || right(row);
+    }
+    case 'not': {
+      const operand = compileQuery(ast.operand);
+      return row => !operand(row);
+    }
+    case 'truthy':
+      return row => Boolean(readValue(row, ast.column));
+    case 'compare':
+      return row => compare(readValue(row, ast.column), ast.operator, ast.value);
+    case 'in':
+      return row => {
+        const value = readValue(row, ast.column);
+        return value !== null && ast.values.some(expected => equals(value, expected));
+      };
+    case 'contains': {
+      const needle = ast.value.toLowerCase();
+      return row => String(readValue(row, ast.column) ?? '').toLowerCase().includes(needle);
+    }
+  }
+}
+
+/**
+ * Indices of the rows matching a query; throws the syntax error for invalid queries
+ */
+export function matchQuery(data: RepositoryData[], text: string, columns: ColumnInfo[]): number[] {
+  const { ast, error } = parseQuery(text, columns);
+  if (error) throw new Error(formatQueryError(error));
+  if (!ast) return data.map((_, index) => index);
+
+  const predicate = compileQuery(ast);
+  const matches: number[] = [];
+  data.forEach((row, index) => {
+    if (predicate(row)) matches.push(index);
+  });
+  return matches;
+}
+
+/**
+ * Completions for the word at the cursor: columns where a condition can start,
+ * operators and keywords after a column or value
+ */
+export function getQuerySuggestions(text: string, cursor: number, columns: ColumnInfo[]): QuerySuggestions {
+  const before = text.slice(0, cursor);
+  const partial = /[A-Za-z_`][A-Za-z0-9_ ]*$/.exec(before)?.[0] ?? '';
+  // Spaces only belong to a partial word inside an open backtick
+  const word = partial.startsWith('`') && (partial.match(/`/g) ?? []).length === 1
+    ? partial
+    : /[A-Za-z_][A-Za-z0-9_]*$/.exec(before)?.[0] ?? '';
+  const from = cursor - word.length;
+  const prefix = word.replace(/^`/, '').toLowerCase();
+
+  const { tokens } = tokenize(text.slice(0, from));
+  const previous = tokens.filter(token => token.type !== 'end').pop();
+
+  const expectsCondition = !previous
+    || previous.type === '('
+    || (previous.type === 'keyword' && ['and', 'or', 'not'].includes(previous.text));
+  const afterColumn = previous?.type === 'identifier';
+
+  let candidates: string[];
+  if (expectsCondition) {
+    candidates = [
+      ...columns.map(column => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(column.name) ? column.name : `\`${column.name}\``)),
+      'not'
+    ];
+  } else if (afterColumn) {
+    candidates = [...OPERATORS, 'in', 'contains', 'and', 'or'];
+  } else {
+    candidates = ['and', 'or'];
+  }
+
+  const suggestions = candidates.filter(candidate =>
+    candidate.replace(/^`/, '').toLowerCase().startsWith(prefix) && candidate.toLowerCase() !== prefix
+  );
+  return { from, to: cursor, suggestions };
+}
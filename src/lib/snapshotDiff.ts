@@ -0,0 +1,164 @@
+// Comparing two inventories of the same organizations
+// Rows are joined on Org_Name/Repo_Name; numeric columns are compared field by field.
+
+import { RepositoryData, NUMERICAL_COLUMNS } from '@/types/repository';
+import { getMergeKey } from '@/lib/merge';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+export type DiffSortMode = 'absolute' | 'relative';
+
+export interface FieldDelta {
+  column: string;
+  before: number;
+  after: number;
+  delta: number;
+  // Infinity when the value grew from zero
+  relative: number;
+}
+
+export interface RepoDiff {
+  key: string;
+  name: string;
+  status: DiffStatus;
+  before?: RepositoryData;
+  after?: RepositoryData;
+  deltas: FieldDelta[];
+  archivedChange: 'archived' | 'unarchived' | null;
+}
+
+export interface MetricMovement {
+  column: string;
+  before: number;
+  after: number;
+  delta: number;
+  relative: number;
+  increased: number;
+  decreased: number;
+}
+
+export interface SnapshotDiff {
+  repos: RepoDiff[];
+  counts: Record<DiffStatus, number> & { archived: number; unarchived: number };
+  movement: MetricMovement[];
+}
+
+const relativeChange = (before: number, after: number) => {
+  if (before === 0) return after === 0 ? 0 : Infinity;
+  return (after - before) / Math.abs(before);
+};
+
+const numberOf = (row: RepositoryData | undefined, column: string) => {
+  const value = row ? (row as any)[column] : 0;
+  return typeof value === 'number' && !isNaN(value) ? value : 0;
+};
+
+const indexRows = (data: RepositoryData[]) => {
+  const rows = new Map<string, RepositoryData>();
+  data.forEach(row => rows.set(getMergeKey(row), row));
+  return rows;
+};
+
+const compareRows = (before: RepositoryData, after: RepositoryData): FieldDelta[] =>
+  NUMERICAL_COLUMNS.flatMap(column => {
+    const from = numberOf(before, column);
+    const to = numberOf(after, column);
+    return from === to
+      ? []
+      : [{ column, before: from, after: to, delta: to - from, relative: relativeChange(from, to) }];
+  });
+
+/**
+ * Join two datasets on Org_Name/Repo_Name and describe what changed from `before` to `after`
+ */
+export function diffSnapshots(before: RepositoryData[], after: RepositoryData[]): SnapshotDiff {
+  const beforeRows = indexRows(before);
+  const afterRows = indexRows(after);
+  const repos: RepoDiff[] = [];
+  const counts = { added: 0, removed: 0, changed: 0, unchanged: 0, archived: 0, unarchived: 0 };
+
+  afterRows.forEach((current, key) => {
+    const previous = beforeRows.get(key);
+    const name = `${current.Org_Name}/${current.Repo_Name}`;
+
+    if (!previous) {
+      repos.push({ key, name, status: 'added', after: current, deltas: [], archivedChange: null });
+      counts.added++;
+      return;
+    }
+
+    const deltas = compareRows(previous, current);
+    const archivedChange = previous.isArchived === current.isArchived
+      ? null
+      : current.isArchived ? 'archived' : 'unarchived';
+    const status: DiffStatus = deltas.length > 0 || archivedChange ? 'changed' : 'unchanged';
+
+    if (archivedChange) counts[archivedChange]++;
+    counts[status]++;
+    repos.push({ key, name, status, before: previous, after: current, deltas, archivedChange });
+  });
+
+  beforeRows.forEach((previous, key) => {
+    if (afterRows.has(key)) return;
+    repos.push({
+      key,
+      name: `${previous.Org_Name}/${previous.Repo_Name}`,
+      status: 'removed',
+      before: previous,
+      deltas: [],
+      archivedChange: null
+    });
+    counts.removed++;
+  });
+
+  const movement = NUMERICAL_COLUMNS.map(column => {
+    let totalBefore = 0;
+    let totalAfter = 0;
+    let increased = 0;
+    let decreased = 0;
+
+    beforeRows.forEach(row => { totalBefore += numberOf(row, column); });
+    afterRows.forEach(row => { totalAfter += numberOf(row, column); });
+    repos.forEach(repo => {
+      const delta = repo.deltas.find(d => d.column === column);
+      if (delta && delta.delta > 0) increased++;
+      if (delta && delta.delta < 0) decreased++;
+    });
+
+    return {
+      column,
+      before: totalBefore,
+      after: totalAfter,
+      delta: totalAfter - totalBefore,
+      relative: relativeChange(totalBefore, totalAfter),
+      increased,
+      decreased
+    };
+  });
+
+  return { repos, counts, movement };
+}
+
+/**
+ * Change of one column for a repository; added and removed repos count from or to zero
+ */
+export function getColumnDelta(repo: RepoDiff, column: string): FieldDelta {
+  const before = numberOf(repo.before, column);
+  const after = numberOf(repo.after, column);
+  return { column, before, after, delta: after - before, relative: relativeChange(before, after) };
+}
+
+/**
+ * Order repositories by the size of their change in one column, largest first
+ */
+export function sortByChange(repos: RepoDiff[], column: string, mode: DiffSortMode): RepoDiff[] {
+  const magnitude = (repo: RepoDiff) => {
+    const delta = getColumnDelta(repo, column);
+    const value = Math.abs(mode === 'absolute' ? delta.delta : delta.relative);
+    // Growth from zero sorts above every finite change
+    return Number.isFinite(value) ? value : Number.MAX_VALUE;
+  };
+  return repos
+    .map(repo => ({ repo, magnitude: magnitude(repo) }))
+    .sort((a, b) => b.magnitude - a.magnitude)
+    .map(({ repo }) => repo);
+}
@@ -0,0 +1,173 @@
+// Time series over dated snapshots
+// Each snapshot is reduced to per-metric totals, medians and P90s (globally and per org) so
+// that many inventories can be compared without keeping their rows in memory.
+
+import { RepositoryData, NUMERICAL_COLUMNS } from '@/types/repository';
+import { DatasetSnapshot } from '@/lib/datasetStore';
+import { DAY_MS, toTimestampMs } from '@/lib/dates';
+
+const MONTH_DAYS = 30.44;
+
+export type TrendStatistic = 'total' | 'median' | 'p90' | 'repoCount';
+
+export interface MetricPoint {
+  total: number;
+  median: number;
+  p90: number;
+}
+
+export interface ScopeSummary {
+  repoCount: number;
+  metrics: Record<string, MetricPoint>;
+}
+
+export interface SnapshotSummary extends ScopeSummary {
+  snapshotId: string;
+  name: string;
+  date: string;
+  orgs: Record<string, ScopeSummary>;
+}
+
+export interface TrendPoint {
+  date: string;
+  value: number;
+}
+
+export interface GrowthRate {
+  // Least-squares slope, in metric units per month
+  perMonth: number;
+  // Compound monthly growth between the first and last point; null when starting from zero
+  monthlyRate: number | null;
+}
+
+export interface ThresholdProjection {
+  reached: boolean;
+  // Projected crossing date (YYYY-MM-DD); null when the trend never reaches the threshold
+  date: string | null;
+}
+
+// Nearest-rank percentile, matching calculateStatistics
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const index = Math.ceil(sorted.length * p / 100) - 1;
+  return sorted[Math.max(0, Math.min(index, sorted.length - 1))];
+};
+
+const summarizeRows = (rows: RepositoryData[]): ScopeSummary => {
+  const metrics: Record<string, MetricPoint> = {};
+
+  NUMERICAL_COLUMNS.forEach(column => {
+    const values = rows
+      .map(row => (row as any)[column])
+      .filter(val => typeof val === 'number' && !isNaN(val))
+      .sort((a, b) => a - b);
+
+    metrics[column] = {
+      total: values.reduce((sum, val) => sum + val, 0),
+      median: percentile(values, 50),
+      p90: percentile(values, 90)
+    };
+  });
+
+  return { repoCount: rows.length, metrics };
+};
+
+/**
+ * Reduce a snapshot's rows to the statistics charted over time
+ */
+export function summarizeSnapshot(snapshot: DatasetSnapshot, data: RepositoryData[]): SnapshotSummary {
+  const byOrg = new Map<string, RepositoryData[]>();
+  data.forEach(row => {
+    const rows = byOrg.get(row.Org_Name);
+    if (rows) {
+      rows.push(row);
+    } else {
+      byOrg.set(row.Org_Name, [row]);
+    }
+  });
+
+  const orgs: Record<string, ScopeSummary> = {};
+  byOrg.forEach((rows, org) => {
+    orgs[org] = summarizeRows(rows);
+  });
+
+  return {
+    snapshotId: snapshot.id,
+    name: snapshot.name,
+    date: snapshot.date,
+    ...summarizeRows(data),
+    orgs
+  };
+}
+
+/**
+ * One value per snapshot, oldest first; an org missing from a snapshot counts as zero
+ */
+export function getTrendSeries(
+  summaries: SnapshotSummary[],
+  column: string,
+  statistic: TrendStatistic,
+  org?: string
+): TrendPoint[] {
+  return [...summaries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(summary => {
+      const scope = org ? summary.orgs[org] : summary;
+      if (!scope) return { date: summary.date, value: 0 };
+      const value = statistic === 'repoCount' ? scope.repoCount : scope.metrics[column]?.[statistic] ?? 0;
+      return { date: summary.date, value };
+    });
+}
+
+const toDays = (date: string) => toTimestampMs(date) / DAY_MS;
+
+const fitLine = (points: TrendPoint[]) => {
+  const xs = points.map(point => toDays(point.date));
+  const ys = points.map(point => point.value);
+  const n = points.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+  });
+
+  if (varianceX === 0) return null;
+  const slope = covariance / varianceX;
+  return { slope, intercept: meanY - slope * meanX };
+};
+
+/**
+ * Growth of a series; needs at least two snapshots with different dates
+ */
+export function calculateGrowth(points: TrendPoint[]): GrowthRate | null {
+  const line = fitLine(points);
+  if (!line) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const months = (toDays(last.date) - toDays(first.date)) / MONTH_DAYS;
+  const monthlyRate = first.value > 0 && last.value >= 0 && months > 0
+    ? Math.pow(last.value / first.value, 1 / months) - 1
+    : null;
+
+  return { perMonth: line.slope * MONTH_DAYS, monthlyRate };
+}
+
+/**
+ * When the linear trend of a series reaches a threshold
+ */
+export function projectThresholdCrossing(points: TrendPoint[], threshold: number): ThresholdProjection | null {
+  if (points.length === 0) return null;
+  if (points[points.length - 1].value >= threshold) return { reached: true, date: null };
+
+  const line = fitLine(points);
+  if (!line || line.slope <= 0) return { reached: false, date: null };
+
+  // The fitted line can pass the threshold before the latest snapshot even though its value has not
+  const crossingDay = Math.max((threshold - line.intercept) / line.slope, toDays(points[points.length - 1].date));
+  return { reached: false, date: new Date(crossingDay * DAY_MS).toISOString().slice(0, 10) };
+}
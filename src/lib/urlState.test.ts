@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { decodeUrlState } from '@/lib/urlState';
+import { getDefaultChartSettings } from '@/lib/views';
+
+describe('decodeUrlState', () => {
+  const defaults = getDefaultChartSettings(100);
+
+  it('ignores unknown tabs and histogram columns', () => {
+    const state = decodeUrlState('#tab=nope&hist.column=Not_A_Column&hist.scaling=zscore', defaults);
+    expect(state.tab).toBeNull();
+    expect(state.charts?.histogram).toEqual({ ...defaults.histogram, scaling: 'zscore' });
+  });
+
+  it('reads a known tab and a histogram column from the given columns', () => {
+    const state = decodeUrlState('#tab=distributions&hist.column=Custom_Score', defaults, ['Custom_Score']);
+    expect(state.tab).toBe('distributions');
+    expect(state.charts?.histogram.column).toBe('Custom_Score');
+  });
+});
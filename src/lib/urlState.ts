@@ -0,0 +1,136 @@
+// Dashboard state in the URL hash, so a link reproduces what a colleague is looking at
+// e.g. #snapshot=Q3+inventory&tab=distributions&isArchived=no&hist.column=Issue_Count&hist.scaling=zscore
+// The dataset is referenced by snapshot name because the rows only exist in the browser that uploaded them.
+
+import { BOOLEAN_COLUMNS, NUMERICAL_COLUMNS } from '@/types/repository';
+import { ChartSettings, DASHBOARD_TABS, SCALING_METHODS, ScalingMethod } from '@/types/views';
+import { DashboardFilters, BooleanFacet, EMPTY_FILTERS } from '@/lib/filters';
+
+export interface DashboardUrlState {
+  snapshot: string | null;
+  tab: string | null;
+  filters: DashboardFilters;
+  // Null when the link does not change any chart option
+  charts: ChartSettings | null;
+}
+
+// Hash keys for chart options, per settings section
+const CHART_KEYS: { [K in keyof ChartSettings]: { prefix: string; fields: (keyof ChartSettings[K])[] } } = {
+  histogram: { prefix: 'hist', fields: ['column', 'scaling', 'logScale', 'optimize'] },
+  ageSize: { prefix: 'age', fields: ['optimize', 'progressive', 'webWorker'] },
+  commitCollaborator: { prefix: 'commits', fields: ['optimize'] }
+};
+
+const RANGE_SEPARATOR = '..';
+
+/**
+ * Serialize dashboard state; filters and chart options are only written when they differ from the defaults
+ */
+export function encodeUrlState(
+  state: { snapshot: string | null; tab: string; filters: DashboardFilters; charts: ChartSettings },
+  defaults: ChartSettings
+): string {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.snapshot) params.set('snapshot', state.snapshot);
+  params.set('tab', state.tab);
+  if (filters.sourceFile) params.set('source', filters.sourceFile);
+  if (filters.query) params.set('q', filters.query);
+  if (filters.orgs.length > 0) params.set('orgs', filters.orgs.join(','));
+
+  BOOLEAN_COLUMNS.forEach(column => {
+    const facet = filters.booleans[column];
+    if (facet && facet !== 'any') params.set(column, facet);
+  });
+  Object.entries(filters.ranges).forEach(([column, range]) => {
+    params.set(`range.${column}`, `${range.min}${RANGE_SEPARATOR}${range.max}`);
+  });
+  Object.entries(filters.dates).forEach(([column, range]) => {
+    if (range.from || range.to) params.set(`date.${column}`, `${range.from}${RANGE_SEPARATOR}${range.to}`);
+  });
+
+  (Object.keys(CHART_KEYS) as (keyof ChartSettings)[]).forEach(section => {
+    const { prefix, fields } = CHART_KEYS[section];
+    fields.forEach(field => {
+      const value = (state.charts[section] as any)[field];
+      if (value !== (defaults[section] as any)[field]) params.set(`${prefix}.${String(field)}`, String(value));
+    });
+  });
+
+  return params.toString();
+}
+
+const parseRange = (text: string) => {
+  const [from = '', to = ''] = text.split(RANGE_SEPARATOR);
+  return { from, to };
+};
+
+/**
+ * Read dashboard state from a URL hash; unknown or malformed entries are ignored
+ * The histogram column must be one of the given numeric columns.
+ */
+export function decodeUrlState(hash: string, defaults: ChartSettings, columns: string[] = NUMERICAL_COLUMNS): DashboardUrlState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const filters: DashboardFilters = {
+    ...EMPTY_FILTERS,
+    sourceFile: params.get('source'),
+    query: params.get('q') ?? '',
+    orgs: params.get('orgs')?.split(',').filter(Boolean) ?? [],
+    booleans: {},
+    ranges: {},
+    dates: {}
+  };
+
+  BOOLEAN_COLUMNS.forEach(column => {
+    const facet = params.get(column);
+    if (facet === 'yes' || facet === 'no') filters.booleans[column] = facet as BooleanFacet;
+  });
+
+  let charts: ChartSettings | null = null;
+  const chartsOrDefaults = () => {
+    charts = charts ?? {
+      histogram: { ...defaults.histogram },
+      ageSize: { ...defaults.ageSize },
+      commitCollaborator: { ...defaults.commitCollaborator }
+    };
+    return charts;
+  };
+
+  params.forEach((value, key) => {
+    if (key.startsWith('range.')) {
+      const { from, to } = parseRange(value);
+      const min = Number(from);
+      const max = Number(to);
+      if (from !== '' && to !== '' && !isNaN(min) && !isNaN(max)) filters.ranges[key.slice('range.'.length)] = { min, max };
+      return;
+    }
+    if (key.startsWith('date.')) {
+      filters.dates[key.slice('date.'.length)] = parseRange(value);
+      return;
+    }
+
+    const section = (Object.keys(CHART_KEYS) as (keyof ChartSettings)[])
+      .find(name => key.startsWith(`${CHART_KEYS[name].prefix}.`));
+    if (!section) return;
+
+    const field = key.slice(CHART_KEYS[section].prefix.length + 1);
+    if (!(CHART_KEYS[section].fields as string[]).includes(field)) return;
+    const target = chartsOrDefaults()[section] as any;
+
+    if (typeof target[field] === 'boolean') {
+      target[field] = value === 'true';
+    } else if (field === 'scaling') {
+      if (SCALING_METHODS.includes(value as ScalingMethod)) target[field] = value;
+    } else if (field === 'column') {
+      if (columns.includes(value)) target[field] = value;
+    }
+  });
+
+  return {
+    snapshot: params.get('snapshot'),
+    tab: DASHBOARD_TABS.find(tab => tab === params.get('tab')) ?? null,
+    filters,
+    charts
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultChartSettings, importViews } from '@/lib/views';
+
+describe('importViews', () => {
+  const defaults = getDefaultChartSettings(100);
+
+  it('keeps the defaults for malformed chart settings', () => {
+    const file = JSON.stringify({
+      version: 1,
+      views: [{
+        name: 'Broken charts',
+        charts: {
+          histogram: { column: 'Not_A_Column', scaling: 'cubic', logScale: 'yes', optimize: true },
+          ageSize: 'fast',
+          commitCollaborator: { optimize: 1 }
+        }
+      }]
+    });
+
+    const { views, error } = importViews(file, defaults);
+    expect(error).toBeNull();
+    expect(views[0].charts).toEqual({
+      ...defaults,
+      histogram: { ...defaults.histogram, optimize: true }
+    });
+  });
+
+  it('accepts a histogram column from the given numeric columns', () => {
+    const file = JSON.stringify({ name: 'Extra', charts: { histogram: { column: 'Custom_Score', scaling: 'zscore' } } });
+    const { views } = importViews(file, defaults, ['Repo_Size_mb', 'Custom_Score']);
+    expect(views[0].charts.histogram).toMatchObject({ column: 'Custom_Score', scaling: 'zscore' });
+  });
+});
@@ -0,0 +1,138 @@
+// Saved dashboard views and their JSON exchange format
+
+import { NUMERICAL_COLUMNS } from '@/types/repository';
+import { ChartSettings, SavedView, SCALING_METHODS, ScalingMethod } from '@/types/views';
+import { BooleanFacet, DashboardFilters, DateRange, EMPTY_FILTERS, NumericRange } from '@/lib/filters';
+
+const VIEW_FILE_VERSION = 1;
+
+export interface ViewImportResult {
+  views: SavedView[];
+  error: string | null;
+}
+
+/**
+ * Chart options used before the user changes anything; performance modes depend on dataset size
+ */
+export function getDefaultChartSettings(dataSize: number): ChartSettings {
+  return {
+    histogram: { column: NUMERICAL_COLUMNS[0], scaling: 'none', logScale: false, optimize: dataSize > 5000 },
+    ageSize: { optimize: dataSize > 1000, progressive: dataSize > 5000, webWorker: dataSize > 10000 },
+    commitCollaborator: { optimize: dataSize > 2000 }
+  };
+}
+
+/**
+ * Serialize views for sharing with teammates
+ */
+export function exportViews(views: SavedView[]): string {
+  return JSON.stringify({ version: VIEW_FILE_VERSION, views }, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const BOOLEAN_FACETS: BooleanFacet[] = ['any', 'yes', 'no'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !isNaN(value);
+
+// Keep only the entries of a record that pass the check
+const pickEntries = <T>(value: unknown, isValid: (entry: any) => entry is T): Record<string, T> =>
+  isObject(value)
+    ? Object.fromEntries(Object.entries(value).filter(([, entry]) => isValid(entry)))
+    : {};
+
+// Each field is checked on its own so one malformed field does not discard the rest
+const normalizeFilters = (raw: unknown): DashboardFilters => {
+  if (!isObject(raw)) return EMPTY_FILTERS;
+  return {
+    sourceFile: typeof raw.sourceFile === 'string' ? raw.sourceFile : EMPTY_FILTERS.sourceFile,
+    query: typeof raw.query === 'string' ? raw.query : EMPTY_FILTERS.query,
+    orgs: Array.isArray(raw.orgs) ? raw.orgs.filter((org: unknown) => typeof org === 'string') : EMPTY_FILTERS.orgs,
+    booleans: pickEntries(raw.booleans, (facet): facet is BooleanFacet => BOOLEAN_FACETS.includes(facet)),
+    ranges: pickEntries(raw.ranges, (range): range is NumericRange =>
+      isObject(range) && isNumber(range.min) && isNumber(range.max)),
+    dates: pickEntries(raw.dates, (range): range is DateRange =>
+      isObject(range) && typeof range.from === 'string' && typeof range.to === 'string')
+  };
+};
+
+const pickBoolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+/**
+ * Validate chart options field by field; anything missing, unknown or of the wrong type keeps its default
+ */
+export function normalizeChartSettings(raw: unknown, defaults: ChartSettings, columns: string[] = NUMERICAL_COLUMNS): ChartSettings {
+  const charts = isObject(raw) ? raw : {};
+  const histogram = isObject(charts.histogram) ? charts.histogram : {};
+  const ageSize = isObject(charts.ageSize) ? charts.ageSize : {};
+  const commitCollaborator = isObject(charts.commitCollaborator) ? charts.commitCollaborator : {};
+
+  return {
+    histogram: {
+      column: columns.includes(histogram.column) ? histogram.column : defaults.histogram.column,
+      scaling: SCALING_METHODS.includes(histogram.scaling) ? histogram.scaling as ScalingMethod : defaults.histogram.scaling,
+      logScale: pickBoolean(histogram.logScale, defaults.histogram.logScale),
+      optimize: pickBoolean(histogram.optimize, defaults.histogram.optimize)
+    },
+    ageSize: {
+      optimize: pickBoolean(ageSize.optimize, defaults.ageSize.optimize),
+      progressive: pickBoolean(ageSize.progressive, defaults.ageSize.progressive),
+      webWorker: pickBoolean(ageSize.webWorker, defaults.ageSize.webWorker)
+    },
+    commitCollaborator: {
+      optimize: pickBoolean(commitCollaborator.optimize, defaults.commitCollaborator.optimize)
+    }
+  };
+}
+
+// Missing settings fall back to the defaults so files from older versions still load
+const normalizeView = (raw: unknown, defaults: ChartSettings, columns: string[]): SavedView | null => {
+  if (!isObject(raw) || typeof raw.name !== 'string' || raw.name.trim() === '') return null;
+
+  return {
+    id: crypto.randomUUID(),
+    name: raw.name.trim(),
+    tab: typeof raw.tab === 'string' ? raw.tab : 'summary',
+    filters: normalizeFilters(raw.filters),
+    charts: normalizeChartSettings(raw.charts, defaults, columns),
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString()
+  };
+};
+
+/**
+ * Read views from an exported file; accepts the export format, a bare array or a single view
+ * The histogram column must be one of the given numeric columns.
+ */
+export function importViews(text: string, defaults: ChartSettings, columns: string[] = NUMERICAL_COLUMNS): ViewImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { views: [], error: 'File is not valid JSON' };
+  }
+
+  const rawViews = isObject(parsed) && Array.isArray(parsed.views)
+    ? parsed.views
+    : Array.isArray(parsed) ? parsed : [parsed];
+
+  const views = rawViews
+    .map((raw: unknown) => normalizeView(raw, defaults, columns))
+    .filter((view: SavedView | null): view is SavedView => view !== null);
+
+  if (views.length === 0) return { views: [], error: 'No views found in file' };
+  const skipped = rawViews.length - views.length;
+  return { views, error: skipped > 0 ? `${skipped} invalid view(s) skipped` : null };
+}
+
+/**
+ * Add views to a list, replacing views with the same name
+ */
+export function mergeViews(existing: SavedView[], incoming: SavedView[]): SavedView[] {
+  return incoming.reduce((views, view) => {
+    const match = views.find(v => v.name === view.name);
+    return match
+      ? views.map(v => (v.id === match.id ? { ...view, id: match.id } : v))
+      : [...views, view];
+  }, existing);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { RepositoryData } from '@/types/repository';
+import { WavePlanSettings } from '@/types/migration';
+import { DEFAULT_WAVE_SETTINGS, planWaves } from '@/lib/wavePlanner';
+
+const repo = (org: string, name: string, sizeMb = 10) =>
+  ({ Org_Name: org, Repo_Name: name, Repo_Size_mb: sizeMb, Record_Count: 0 }) as RepositoryData;
+
+const settings = (pins: Record<string, number>, maxRepos = 2): WavePlanSettings => ({
+  ...DEFAULT_WAVE_SETTINGS,
+  capacity: { maxSizeMb: 0, maxRecords: 0, maxRepos },
+  pins
+});
+
+const waveOf = (waves: ReturnType<typeof planWaves>, name: string) =>
+  waves.find(wave => wave.repos.some(r => r.Repo_Name === name))?.number;
+
+describe('planWaves', () => {
+  const data = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(name => repo('org', name));
+
+  it('puts a repository pinned to wave 3 in wave 3', () => {
+    const waves = planWaves(data, settings({ 'org/a': 3 }));
+    expect(waveOf(waves, 'a')).toBe(3);
+  });
+
+  it('keeps pins in their own waves regardless of order', () => {
+    const waves = planWaves(data, settings({ 'org/a': 3, 'org/b': 2 }));
+    expect(waveOf(waves, 'a')).toBe(3);
+    expect(waveOf(waves, 'b')).toBe(2);
+  });
+
+  it('opens new waves in pin order for pins past the end of the plan', () => {
+    const waves = planWaves([repo('org', 'a'), repo('org', 'b'), repo('org', 'c')], settings({ 'org/a': 9, 'org/b': 7 }, 5));
+    expect(waves).toHaveLength(3);
+    expect(waveOf(waves, 'c')).toBe(1);
+    expect(waveOf(waves, 'b')).toBe(2);
+    expect(waveOf(waves, 'a')).toBe(3);
+  });
+
+  it('moves the rest of an org to its pinned wave when orgs are kept together', () => {
+    const waves = planWaves(
+      [...data, repo('other', 'x'), repo('other', 'y')],
+      { ...settings({ 'other/x': 2 }, 0), keepOrgsTogether: true }
+    );
+    expect(waveOf(waves, 'x')).toBe(2);
+    expect(waveOf(waves, 'y')).toBe(2);
+  });
+});
@@ -0,0 +1,173 @@
+// Capacity-constrained batching of repositories into migration waves
+// Unpinned repositories are packed first-fit decreasing, largest load first, so each wave
+// fills up before a new one is opened; pinned repositories then go into the wave they ask for.
+
+import { RepositoryData } from '@/types/repository';
+import { Wave, WaveCapacity, WavePlanSettings, WaveTotals } from '@/types/migration';
+import { getMergeKey } from '@/lib/merge';
+
+export const DEFAULT_WAVE_SETTINGS: WavePlanSettings = {
+  capacity: { maxSizeMb: 50000, maxRecords: 5000000, maxRepos: 100 },
+  keepOrgsTogether: false,
+  pins: {}
+};
+
+export const getRepoKey = (repo: RepositoryData) => getMergeKey(repo);
+
+interface PackItem {
+  repos: RepositoryData[];
+  totals: WaveTotals;
+  // Set when a pinned org member decides where the rest of the org goes
+  wave?: number;
+}
+
+const EMPTY_TOTALS: WaveTotals = { sizeMb: 0, records: 0, repos: 0 };
+
+const addTotals = (a: WaveTotals, b: WaveTotals): WaveTotals => ({
+  sizeMb: a.sizeMb + b.sizeMb,
+  records: a.records + b.records,
+  repos: a.repos + b.repos
+});
+
+const totalsOf = (repos: RepositoryData[]): WaveTotals =>
+  repos.reduce<WaveTotals>(
+    (totals, repo) => addTotals(totals, { sizeMb: repo.Repo_Size_mb || 0, records: repo.Record_Count || 0, repos: 1 }),
+    EMPTY_TOTALS
+  );
+
+const LIMITS: [keyof WaveTotals, keyof WaveCapacity][] = [
+  ['sizeMb', 'maxSizeMb'],
+  ['records', 'maxRecords'],
+  ['repos', 'maxRepos']
+];
+
+/**
+ * Whether totals stay within every limit that is set
+ */
+export function isWithinCapacity(totals: WaveTotals, capacity: WaveCapacity): boolean {
+  return LIMITS.every(([total, limit]) => !(capacity[limit] > 0) || totals[total] <= capacity[limit]);
+}
+
+// Share of the tightest limit an item uses, for packing order
+const loadOf = (totals: WaveTotals, capacity: WaveCapacity) => {
+  const shares = LIMITS
+    .filter(([, limit]) => capacity[limit] > 0)
+    .map(([total, limit]) => totals[total] / capacity[limit]);
+  return shares.length > 0 ? Math.max(...shares) : totals.sizeMb;
+};
+
+const isValidWave = (wave: number | undefined): wave is number =>
+  typeof wave === 'number' && Number.isInteger(wave) && wave >= 1;
+
+/**
+ * Keys of the pins that apply to repositories in the data; pins for other repositories are kept but ignored
+ */
+export function getActivePins(data: RepositoryData[], pins: Record<string, number>): string[] {
+  const keys = new Set(data.map(getRepoKey));
+  return Object.keys(pins).filter(key => keys.has(key) && isValidWave(pins[key]));
+}
+
+/**
+ * Bin-pack repositories into waves under the capacity limits, honouring pins and org grouping
+ */
+export function planWaves(data: RepositoryData[], settings: WavePlanSettings): Wave[] {
+  const { capacity, keepOrgsTogether, pins } = settings;
+  const waves: { repos: RepositoryData[]; totals: WaveTotals }[] = [];
+
+  const getWave = (number: number) => {
+    while (waves.length < number) waves.push({ repos: [], totals: EMPTY_TOTALS });
+    return waves[number - 1];
+  };
+  const place = (number: number, repos: RepositoryData[], totals = totalsOf(repos)) => {
+    const wave = getWave(number);
+    repos.forEach(repo => wave.repos.push(repo));
+    wave.totals = addTotals(wave.totals, totals);
+  };
+
+  const groups = new Map<string, RepositoryData[]>();
+  data.forEach((repo, index) => {
+    const key = keepOrgsTogether ? repo.Org_Name : String(index);
+    const group = groups.get(key);
+    if (group) {
+      group.push(repo);
+    } else {
+      groups.set(key, [repo]);
+    }
+  });
+
+  const items: PackItem[] = [];
+  const pinned: { repo: RepositoryData; wave: number }[] = [];
+  groups.forEach(repos => {
+    const unpinned: RepositoryData[] = [];
+    let followWave: number | undefined;
+    repos.forEach(repo => {
+      const wave = pins[getRepoKey(repo)];
+      if (isValidWave(wave)) {
+        pinned.push({ repo, wave });
+        followWave = followWave ?? wave;
+      } else {
+        unpinned.push(repo);
+      }
+    });
+    if (unpinned.length > 0) {
+      items.push({ repos: unpinned, totals: totalsOf(unpinned), wave: keepOrgsTogether ? followWave : undefined });
+    }
+  });
+
+  const followers = items.filter(item => item.wave !== undefined);
+
+  items
+    .filter(item => item.wave === undefined)
+    .sort((a, b) => loadOf(b.totals, capacity) - loadOf(a.totals, capacity))
+    .forEach(item => {
+      let index = waves.findIndex(wave => isWithinCapacity(addTotals(wave.totals, item.totals), capacity));
+      // Items too large for any wave get one of their own and are reported as over capacity
+      if (index < 0) index = waves.findIndex(wave => wave.totals.repos === 0);
+      place(index >= 0 ? index + 1 : waves.length + 1, item.repos, item.totals);
+    });
+
+  // Pins within the packed plan are honoured as given; pins past its end open new waves
+  // in the order they were asked for, rather than a run of empty ones
+  const packedCount = waves.length;
+  const laterWaves = Array.from(new Set(pinned.map(({ wave }) => wave).filter(wave => wave > packedCount)))
+    .sort((a, b) => a - b);
+  const resolveWave = (wave: number) => (wave <= packedCount ? wave : packedCount + 1 + laterWaves.indexOf(wave));
+
+  pinned.forEach(({ repo, wave }) => place(resolveWave(wave), [repo]));
+  followers.forEach(item => place(resolveWave(item.wave!), item.repos, item.totals));
+
+  return waves.map((wave, index) => ({
+    number: index + 1,
+    repos: wave.repos,
+    totals: wave.totals,
+    overCapacity: !isWithinCapacity(wave.totals, capacity)
+  }));
+}
+
+/**
+ * Flatten a plan into CSV rows, one per repository
+ */
+export function wavePlanToRows(waves: Wave[], pins: Record<string, number>): (string | number)[][] {
+  return [
+    ['Wave', 'Org_Name', 'Repo_Name', 'Repo_Size_mb', 'Record_Count', 'Pinned'],
+    ...waves.flatMap(wave => wave.repos.map(repo => [
+      wave.number,
+      repo.Org_Name,
+      repo.Repo_Name,
+      repo.Repo_Size_mb,
+      repo.Record_Count,
+      isValidWave(pins[getRepoKey(repo)]) ? 'yes' : 'no'
+    ]))
+  ];
+}
+
+/**
+ * Fill in anything missing from saved settings
+ */
+export function normalizeWaveSettings(settings: Partial<WavePlanSettings> | undefined | null): WavePlanSettings {
+  return {
+    capacity: { ...DEFAULT_WAVE_SETTINGS.capacity, ...settings?.capacity },
+    keepOrgsTogether: settings?.keepOrgsTogether ?? DEFAULT_WAVE_SETTINGS.keepOrgsTogether,
+    pins: settings?.pins ?? {}
+  };
+}
@@ -0,0 +1,29 @@
+export type ColumnTransform =
+  | 'none'
+  | 'kb_to_mb'
+  | 'gb_to_mb'
+  | 'bytes_to_mb'
+  | 'age_days_to_date';
+
+export interface ColumnMappingEntry {
+  source: string | null; // Source header, or null when the column is left unmapped
+  transform: ColumnTransform;
+}
+
+// Keyed by canonical column name from REQUIRED_COLUMNS
+export type ColumnMapping = Record<string, ColumnMappingEntry>;
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export const COLUMN_TRANSFORMS: { value: ColumnTransform; label: string }[] = [
+  { value: 'none', label: 'As is' },
+  { value: 'kb_to_mb', label: 'KB → MB' },
+  { value: 'gb_to_mb', label: 'GB → MB' },
+  { value: 'bytes_to_mb', label: 'Bytes → MB' },
+  { value: 'age_days_to_date', label: 'Age in days → date' }
+];
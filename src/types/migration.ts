@@ -0,0 +1,121 @@
+import { RepositoryData } from '@/types/repository';
+
+export type ScoringFactorId =
+  | 'size'
+  | 'records'
+  | 'pullRequests'
+  | 'issues'
+  | 'comments'
+  | 'refs'
+  | 'migrationIssue';
+
+export type MigrationTier = 'easy' | 'moderate' | 'complex' | 'blocked';
+
+// Weights and tier cut-offs are user-editable and saved between sessions
+export interface ScoringModel {
+  weights: Record<ScoringFactorId, number>;
+  // Minimum score (0-100) for each tier above easy
+  thresholds: { moderate: number; complex: number; blocked: number };
+  // Any Migration_Issue text marks the repository as blocked regardless of score
+  blockOnMigrationIssue: boolean;
+}
+
+export interface FactorContribution {
+  factor: ScoringFactorId;
+  // Position of the raw value between the factor's low and high reference values, 0-1
+  normalized: number;
+  // Share of the final score, in score points
+  points: number;
+}
+
+export interface MigrationScore {
+  score: number;
+  tier: MigrationTier;
+  contributions: FactorContribution[];
+}
+
+// Per-wave limits; zero means no limit
+export interface WaveCapacity {
+  maxSizeMb: number;
+  maxRecords: number;
+  maxRepos: number;
+}
+
+export interface WavePlanSettings {
+  capacity: WaveCapacity;
+  keepOrgsTogether: boolean;
+  // Repository key to 1-based wave number; pins are placed before anything is packed
+  pins: Record<string, number>;
+}
+
+export interface WaveTotals {
+  sizeMb: number;
+  records: number;
+  repos: number;
+}
+
+export interface Wave {
+  number: number;
+  repos: RepositoryData[];
+  totals: WaveTotals;
+  // Pins or an org group too large for one wave can push a wave past its limits
+  overCapacity: boolean;
+}
+
+export type IssueRuleMatch = 'keyword' | 'regex';
+
+// Rules are tried in order; the first match decides the category
+export interface IssueRule {
+  id: string;
+  category: string;
+  match: IssueRuleMatch;
+  // Comma-separated keywords, or a regular expression source
+  pattern: string;
+}
+
+export type LimitSeverity = 'info' | 'warning' | 'critical';
+
+// 'above' and 'below' compare numeric columns; 'olderThan' compares a date column's age in days
+export type LimitOperator = 'above' | 'below' | 'olderThan';
+
+export interface LimitRule {
+  id: string;
+  name: string;
+  column: string;
+  operator: LimitOperator;
+  threshold: number;
+  severity: LimitSeverity;
+}
+
+export interface LimitFinding {
+  rule: LimitRule;
+  repo: RepositoryData;
+  // The column value, or the age in days for date rules
+  value: number;
+}
+
+// One recorded migration run used to calibrate the estimator
+export interface ThroughputSample {
+  id: string;
+  label: string;
+  mbPerMinute: number;
+  recordsPerMinute: number;
+  overheadMinutes: number;
+}
+
+export interface EstimatorSettings {
+  samples: ThroughputSample[];
+  // Two-sided confidence level for the ranges, e.g. 0.9
+  confidence: number;
+  parallelMigrations: number;
+  hoursPerDay: number;
+}
+
+// Durations in minutes
+export interface DurationEstimate {
+  expected: number;
+  low: number;
+  high: number;
+  // False when too few runs were recorded to estimate the spread; low and high then equal expected
+  reliable: boolean;
+}
@@ -27,6 +27,10 @@ export interface RepositoryData {
   Full_URL: string;
   Migration_Issue: string;
   Created: string;
+  // Provenance recorded at upload time
+  Source_File?: string;
+  Uploaded_At?: string;
+  Source_Line?: number;
 }
 
 export interface StatisticalSummary {
@@ -40,6 +44,73 @@ export interface StatisticalSummary {
   p75: number;
 }
 
+export interface GroupStatistics extends StatisticalSummary {
+  group: string;
+}
+
+export interface RejectedRow {
+  line: number;
+  reason: string;
+}
+
+export interface CoercedCell {
+  line: number;
+  column: string;
+  value: string;
+  coercedTo: number | boolean;
+}
+
+export interface InvalidDate {
+  line: number;
+  column: string;
+  value: string;
+}
+
+export interface AmbiguousDate {
+  line: number;
+  column: string;
+  value: string;
+  interpretedAs: string;
+}
+
+export interface DuplicateKey {
+  key: string;
+  lines: number[];
+}
+
+export interface IngestReport {
+  fileName: string;
+  generatedAt: string;
+  totalRows: number;
+  acceptedRows: number;
+  skippedRows: RejectedRow[];
+  coercedCells: CoercedCell[];
+  invalidDates: InvalidDate[];
+  ambiguousDates: AmbiguousDate[];
+  duplicateKeys: DuplicateKey[];
+  // Totals before the detail lists above were truncated
+  counts: {
+    skippedRows: number;
+    coercedCells: number;
+    invalidDates: number;
+    ambiguousDates: number;
+    duplicateKeys: number;
+  };
+}
+
+export interface ParseResult {
+  data: RepositoryData[];
+  report: IngestReport;
+}
+
+export type ColumnType = 'numeric' | 'boolean' | 'date' | 'categorical';
+
+// A column outside REQUIRED_COLUMNS with the type inferred from its values
+export interface ColumnInfo {
+  name: string;
+  type: ColumnType;
+}
+
 export interface PercentileRepo {
   repo: RepositoryData;
   percentile: number;
@@ -55,6 +126,13 @@ export const REQUIRED_COLUMNS = [
   'Tag_Count', 'Discussion_Count', 'Has_Wiki', 'Full_URL', 'Migration_Issue', 'Created'
 ];
 
+// Added to every row at upload time; never treated as data columns
+export const PROVENANCE_COLUMNS = ['Source_File', 'Uploaded_At', 'Source_Line'];
+
+export const DATE_COLUMNS = ['Created', 'Last_Push', 'Last_Update'];
+
+export const BOOLEAN_COLUMNS = ['Is_Empty', 'isFork', 'isArchived', 'Has_Wiki'];
+
 export const NUMERICAL_COLUMNS = [
   'Repo_Size_mb', 'Record_Count', 'Collaborator_Count', 'Protected_Branch_Count',
   'PR_Review_Count', 'Milestone_Count', 'Issue_Count', 'PR_Count',
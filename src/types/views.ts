@@ -0,0 +1,44 @@
+import { DashboardFilters } from '@/lib/filters';
+
+export type ScalingMethod = 'none' | 'minmax' | 'zscore' | 'robust';
+
+export const SCALING_METHODS: ScalingMethod[] = ['none', 'minmax', 'zscore', 'robust'];
+
+// Values of the dashboard tabs, used to check tabs coming from links
+export const DASHBOARD_TABS = [
+  'summary', 'pivot', 'data-quality', 'size-analysis', 'distributions', 'age-size', 'correlations',
+  'migration', 'readiness', 'waves', 'duration', 'changes', 'trends'
+];
+
+export interface HistogramSettings {
+  column: string;
+  scaling: ScalingMethod;
+  logScale: boolean;
+  optimize: boolean;
+}
+
+export interface AgeSizeSettings {
+  optimize: boolean;
+  progressive: boolean;
+  webWorker: boolean;
+}
+
+export interface CommitCollaboratorSettings {
+  optimize: boolean;
+}
+
+// Chart options lifted into App so views can save and restore them
+export interface ChartSettings {
+  histogram: HistogramSettings;
+  ageSize: AgeSizeSettings;
+  commitCollaborator: CommitCollaboratorSettings;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  tab: string;
+  filters: DashboardFilters;
+  charts: ChartSettings;
+  updatedAt: string;
+}